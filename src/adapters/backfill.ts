@@ -0,0 +1,138 @@
+import type {AuthContext} from "better-auth"
+import type {AttioPluginOptions} from "../index.js"
+import {getMigratedAttributes} from "./schema.js"
+import {sendWebhookEvent} from "./send-event.js"
+
+/**
+ * Position of a backfill, pass it back to continue where the previous run stopped
+ */
+export type BackfillCursor = {
+  model: string // Better Auth model currently being backfilled
+  after: string | null // ID of the last record that was sent
+}
+
+export type BackfillOptions = {
+  /**
+   * Better Auth models to backfill, defaults to the models of all adapters
+   */
+  models?: string[]
+
+  /**
+   * Cursor returned by a previous run
+   */
+  cursor?: BackfillCursor | null
+
+  /**
+   * Maximum number of records sent per run
+   * Defaults to 100
+   */
+  limit?: number
+
+  /**
+   * Schema version the Attio app migrated from, only the attributes of migrations after it
+   * that are flagged with `backfill` are sent, adapters without such migrations are skipped
+   */
+  fromSchemaVersion?: number
+}
+
+export type BackfillResult = {
+  processed: number
+  cursor: BackfillCursor | null
+  done: boolean
+  progress: {
+    model: string
+    completed: number
+    total: number
+  } | null
+}
+
+/**
+ * Send existing records to Attio, e.g. after linking an app that already has users
+ *
+ * Records are walked in ID order per adapter, records without an `attioId` are sent as
+ * `create`, the others as `update`. Each run sends up to `limit` records and returns a cursor
+ * to resume from, so large tables can be backfilled across several requests.
+ */
+export const runBackfill = async (
+  ctx: AuthContext,
+  opts: AttioPluginOptions,
+  {models, cursor, limit = 100, fromSchemaVersion}: BackfillOptions = {}
+): Promise<BackfillResult> => {
+  const adapters = (opts.adapters ?? []).filter(
+    (adapter) =>
+      (!models || models.includes(adapter.betterAuthModel)) &&
+      (fromSchemaVersion === undefined ||
+        getMigratedAttributes(adapter, fromSchemaVersion).length > 0)
+  )
+
+  let index = cursor ? adapters.findIndex((a) => a.betterAuthModel === cursor.model) : 0
+  if (index === -1) {
+    throw new Error(`No adapter found for model "${cursor?.model}"`)
+  }
+
+  let after = cursor?.after ?? null
+  let processed = 0
+
+  while (index < adapters.length && processed < limit) {
+    const adapter = adapters[index]
+    if (!adapter) break
+
+    const attributes =
+      fromSchemaVersion === undefined
+        ? undefined
+        : getMigratedAttributes(adapter, fromSchemaVersion)
+
+    const batchSize = limit - processed
+    const records = await ctx.adapter.findMany<Record<string, unknown>>({
+      model: adapter.betterAuthModel,
+      where: after ? [{field: "id", operator: "gt", value: after}] : undefined,
+      sortBy: {field: "id", direction: "asc"},
+      limit: batchSize,
+    })
+
+    // records synced before already have their sync state, send them anyway
+    // events queued together are sent in a single delivery per integration
+    await Promise.all(
+      records.map((record) =>
+        sendWebhookEvent(record.attioId ? "update" : "create", record, adapter, ctx, opts, {
+          force: true,
+          attributes,
+        })
+      )
+    )
+
+    const last = records.at(-1)
+    if (last) {
+      after = last.id as string
+      processed += records.length
+    }
+
+    // a short page means this model is done, continue with the next one
+    if (records.length < batchSize) {
+      index++
+      after = null
+    }
+  }
+
+  const current = adapters[index]
+  if (!current) {
+    return {processed, cursor: null, done: true, progress: null}
+  }
+
+  const [completed, total] = await Promise.all([
+    after
+      ? ctx.adapter.count({
+          model: current.betterAuthModel,
+          where: [{field: "id", operator: "lte", value: after}],
+        })
+      : 0,
+    ctx.adapter.count({model: current.betterAuthModel}),
+  ])
+
+  return {
+    processed,
+    cursor: {model: current.betterAuthModel, after},
+    done: false,
+    progress: {model: current.betterAuthModel, completed, total},
+  }
+}
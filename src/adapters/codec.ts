@@ -0,0 +1,225 @@
+import type {
+  AttioAttributeType,
+  AttioFieldSchema,
+  AttioLocation,
+  AttioSchema,
+  AttioValues,
+} from "./types.js"
+
+const LOCATION_KEYS = [
+  "line_1",
+  "line_2",
+  "line_3",
+  "line_4",
+  "locality",
+  "region",
+  "postcode",
+  "country_code",
+  "latitude",
+  "longitude",
+] as const
+
+type AttioValueItem = AttioLocation & {
+  attribute_type?: string
+  value?: unknown
+  email_address?: string
+  phone_number?: string
+  original_phone_number?: string
+  target_record_id?: string
+  referenced_actor_id?: string
+  full_name?: string
+  option?: {title: string}
+  status?: {title: string}
+  currency_value?: number
+  domain?: string
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}/
+
+const toDate = (value: unknown): Date | null => {
+  if (value === null || value === undefined || value === "") return null
+  const date = value instanceof Date ? value : new Date(value as string | number)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * Decode a single item of an Attio value array to a plain value
+ * - text, date (as YYYY-MM-DD string), number, rating, checkbox: the value itself
+ * - timestamp: Date
+ * - currency: the amount as number
+ * - select, status: the option/status title
+ * - record-reference: the target record ID
+ * - actor-reference: the referenced actor ID
+ * - location: an `AttioLocation` object
+ * - domain, email-address, phone-number, personal-name: the string value
+ */
+export function decodeAttioValueItem(item: AttioValueItem, type?: AttioAttributeType): unknown {
+  switch (item.attribute_type ?? type) {
+    case "email-address":
+      return item.email_address
+    case "phone-number":
+      return item.phone_number || item.original_phone_number
+    case "record-reference":
+      return item.target_record_id
+    case "actor-reference":
+      return item.referenced_actor_id
+    case "personal-name":
+      return item.full_name
+    case "select":
+      return item.option?.title ?? null
+    case "status":
+      return item.status?.title ?? null
+    case "currency":
+      return item.currency_value ?? null
+    case "domain":
+      return item.domain
+    case "timestamp":
+      return toDate(item.value)
+    case "location":
+      return Object.fromEntries(LOCATION_KEYS.map((key) => [key, item[key] ?? null]))
+  }
+
+  if ("value" in item) {
+    return item.value
+  } else if ("referenced_actor_id" in item) {
+    return item.referenced_actor_id
+  }
+  return null
+}
+
+/**
+ * Decode an Attio field (an array of value items with history/metadata) to a plain value
+ *
+ * With a schema, multiselect attributes always decode to an array and single value attributes
+ * to a scalar. Without one, a single item is returned as scalar and multiple items as array.
+ */
+export function decodeAttioValue(fieldData: unknown, schema?: AttioFieldSchema): unknown {
+  const items = Array.isArray(fieldData) ? (fieldData as AttioValueItem[]) : []
+  const values = items.map((item) => decodeAttioValueItem(item, schema?.type))
+
+  if (schema?.is_multiselect) {
+    return values
+  }
+
+  if (values.length === 0) {
+    return null
+  }
+
+  if (schema || values.length === 1) {
+    return values[0]
+  }
+
+  return values
+}
+
+/**
+ * Decode all values of an Attio record using the adapter schema
+ */
+export function decodeAttioValues(
+  rawValues: Record<string, unknown>,
+  schema: AttioSchema
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(rawValues)) {
+    result[key] = decodeAttioValue(value, schema[key])
+  }
+  return result
+}
+
+// attribute types whose Attio value items wrap a plain value, e.g. `{value: "Jane"}`
+const SCALAR_TYPES = new Set<AttioAttributeType>([
+  "text",
+  "number",
+  "rating",
+  "checkbox",
+  "date",
+  "timestamp",
+])
+
+/**
+ * Encode a single plain value to the format Attio accepts for writes
+ * Values that are already in Attio's format are passed through, value items of scalar types are
+ * unwrapped
+ */
+export function encodeAttioValueItem(input: unknown, schema: AttioFieldSchema): unknown {
+  const value =
+    SCALAR_TYPES.has(schema.type) &&
+    typeof input === "object" &&
+    input !== null &&
+    !(input instanceof Date) &&
+    "value" in input
+      ? input.value
+      : input
+
+  if (value === null || value === undefined) {
+    return null
+  }
+
+  switch (schema.type) {
+    case "text":
+      return typeof value === "object" ? value : String(value)
+    case "number":
+    case "rating":
+      return typeof value === "number" ? value : Number(value)
+    case "checkbox":
+      return Boolean(value)
+    case "currency":
+      return typeof value === "object" ? value : {currency_value: Number(value)}
+    case "date": {
+      // keep the calendar date of ISO strings, e.g. "2024-05-01" of "2024-05-01T23:00:00-05:00"
+      if (typeof value === "string" && ISO_DATE.test(value)) return value.slice(0, 10)
+      return toDate(value)?.toISOString().slice(0, 10) ?? null
+    }
+    case "timestamp":
+      return toDate(value)?.toISOString() ?? null
+    case "record-reference":
+      return typeof value === "string"
+        ? {target_object: schema.config?.allowed_objects?.[0], target_record_id: value}
+        : value
+    case "actor-reference":
+      if (typeof value !== "string") return value
+      return value.includes("@")
+        ? {workspace_member_email_address: value}
+        : {referenced_actor_type: "workspace-member", referenced_actor_id: value}
+    case "phone-number":
+      return typeof value === "string" ? {original_phone_number: value} : value
+    case "location":
+      return typeof value === "object"
+        ? Object.fromEntries(
+            LOCATION_KEYS.map((key) => [key, (value as AttioLocation)[key] ?? null])
+          )
+        : value
+    default:
+      // select, status, domain and email-address accept their plain string value
+      return value
+  }
+}
+
+/**
+ * Encode a plain value for an attribute, preserving multi-value semantics
+ * Multiselect attributes are always sent as array, single value attributes as scalar
+ */
+export function encodeAttioValue(value: unknown, schema: AttioFieldSchema): unknown {
+  if (schema.is_multiselect) {
+    const items =
+      value === null || value === undefined ? [] : Array.isArray(value) ? value : [value]
+    return items.map((item) => encodeAttioValueItem(item, schema)).filter((item) => item !== null)
+  }
+
+  return encodeAttioValueItem(Array.isArray(value) ? value[0] : value, schema)
+}
+
+/**
+ * Encode all values of an outbound payload using the adapter schema
+ * Attributes that aren't part of the schema (e.g. `record_id`) are passed through
+ */
+export function encodeAttioValues(values: AttioValues, schema: AttioSchema): AttioValues {
+  const result: AttioValues = {...values}
+  for (const [key, value] of Object.entries(values)) {
+    const fieldSchema = schema[key]
+    if (fieldSchema && value !== undefined) {
+      result[key] = encodeAttioValue(value, fieldSchema)
+    }
+  }
+  return result
+}
@@ -0,0 +1,175 @@
+import type {
+  AdapterDefinition,
+  AdapterFields,
+  AttioSchema,
+  AttioValues,
+  DefinedAdapter,
+  InferFieldsSchema,
+  ModelAdapter,
+} from "./types.js"
+
+type KeysOf<T> = T extends unknown ? keyof T : never
+
+/**
+ * Attributes returned by `toAttio` that aren't part of the schema
+ */
+type UnknownAttributes<TResult, TSchema extends AttioSchema> = Exclude<
+  KeysOf<TResult>,
+  keyof TSchema | "_deleted" | "record_id"
+>
+
+/**
+ * Rejects a definition whose `hooks.toAttio` returns attributes that aren't part of the fields
+ */
+type CheckHookAttributes<TResult, TSchema extends AttioSchema> = [
+  UnknownAttributes<TResult, TSchema>,
+] extends [never]
+  ? unknown
+  : {hooks: {toAttio: `Unknown Attio attribute: ${UnknownAttributes<TResult, TSchema> & string}`}}
+
+/**
+ * Create a hand-written model adapter
+ * Prefer it over annotating the adapter with `ModelAdapter`, attributes returned by `toAttio`
+ * are checked against `attioSchema`, so typos in attribute slugs fail to compile
+ */
+export const createModelAdapter = <
+  TModel extends Record<string, unknown>,
+  const TSchema extends AttioSchema,
+  TResult extends AttioValues<TSchema>,
+>(
+  adapter: Omit<ModelAdapter<TModel, TSchema>, "toAttio"> & {
+    toAttio: (
+      ...args: Parameters<ModelAdapter<TModel, TSchema>["toAttio"]>
+    ) => Promise<TResult | null>
+  } & ([UnknownAttributes<TResult, TSchema>] extends [never]
+      ? unknown
+      : {toAttio: `Unknown Attio attribute: ${UnknownAttributes<TResult, TSchema> & string}`})
+): ModelAdapter<TModel, TSchema> => adapter
+
+/**
+ * Create a model adapter from a field map
+ * `toAttio`, `fromAttio` and `attioSchema` are derived from the fields:
+ * - `record_id` is filled from the record's `attioId`
+ * - deletions send the Better Auth ID in `idField` and resolve it back from there
+ * - null values from Attio are never written
+ *
+ * Attributes returned by `hooks.toAttio` are checked against the fields when the type arguments
+ * are inferred, passing them explicitly leaves the hook's result unchecked
+ */
+export const defineAdapter = <
+  TModel extends Record<string, unknown> = Record<string, unknown>,
+  const TFields extends AdapterFields<TModel> = AdapterFields<TModel>,
+  TResult extends AttioValues<InferFieldsSchema<TFields>> = AttioValues<InferFieldsSchema<TFields>>,
+>(
+  definition: AdapterDefinition<TModel, TFields, TResult> &
+    CheckHookAttributes<TResult, InferFieldsSchema<TFields>>
+): DefinedAdapter<TModel, TFields> => {
+  type Schema = InferFieldsSchema<TFields>
+  const {fields, hooks, ...options} = definition
+
+  const attioSchema: AttioSchema = {}
+  const derivedAttributes: Record<string, string[]> = {}
+  for (const {attribute, toAttio: _, fromAttio: __, derivedFrom, ...schema} of Object.values(
+    fields
+  )) {
+    attioSchema[attribute] = schema
+    if (derivedFrom) {
+      derivedAttributes[attribute] = derivedFrom
+    }
+  }
+
+  const toAttio: ModelAdapter<TModel, Schema>["toAttio"] = async (event, values, ctx) => {
+    if (event === "delete") {
+      return {_deleted: true, [definition.idField]: values.id} as AttioValues<Schema>
+    }
+
+    const mapped: AttioValues = {
+      record_id: values.attioId as string,
+    }
+
+    for (const [key, field] of Object.entries(fields)) {
+      const value = field.toAttio ? await field.toAttio(values[key], values, ctx) : values[key]
+      if (value !== undefined) {
+        mapped[field.attribute] = value
+      }
+    }
+
+    return hooks?.toAttio
+      ? hooks.toAttio(event, values, ctx, mapped as AttioValues<Schema>)
+      : (mapped as AttioValues<Schema>)
+  }
+
+  const fromAttio: ModelAdapter<TModel, Schema>["fromAttio"] = async (event, values, ctx) => {
+    const attioValues = values as Record<string, unknown>
+    let mapped: Record<string, unknown>
+
+    if (event === "delete") {
+      // return minimal data needed for deletion
+      mapped = {id: attioValues[definition.idField]}
+    } else {
+      mapped = {
+        attioId: values.record_id,
+      }
+
+      // only include non-null values
+      for (const [key, field] of Object.entries(fields)) {
+        const value = attioValues[field.attribute]
+        if (field.fromAttio === false || value == null) continue
+        mapped[key] = field.fromAttio ? await field.fromAttio(value, attioValues, ctx) : value
+      }
+
+      if (event === "create") {
+        // add creation-specific fields
+        mapped.createdAt ??= new Date()
+        mapped.updatedAt = new Date()
+      }
+    }
+
+    return hooks?.fromAttio
+      ? hooks.fromAttio(event, values, ctx, mapped as Partial<TModel>)
+      : (mapped as Partial<TModel>)
+  }
+
+  return {
+    ...options,
+    toAttio,
+    fromAttio,
+    attioSchema: attioSchema as Schema,
+    derivedAttributes: {...derivedAttributes, ...options.derivedAttributes},
+    definition,
+  }
+}
+
+type MergeFields<TFields, TExtraFields> = Omit<TFields, keyof TExtraFields> & TExtraFields
+
+/**
+ * Create a new adapter from an existing one, e.g. to add fields to a built-in adapter
+ * Fields and hooks are merged with the ones of the base adapter
+ */
+export const extendAdapter = <
+  TModel extends Record<string, unknown>,
+  TFields extends AdapterFields<TModel>,
+  const TExtraFields extends AdapterFields<TModel> = Record<never, never>,
+  TResult extends AttioValues<InferFieldsSchema<MergeFields<TFields, TExtraFields>>> = AttioValues<
+    InferFieldsSchema<MergeFields<TFields, TExtraFields>>
+  >,
+>(
+  base: DefinedAdapter<TModel, TFields>,
+  overrides: Partial<
+    Omit<AdapterDefinition<TModel, MergeFields<TFields, TExtraFields>, TResult>, "fields">
+  > & {fields?: TExtraFields} & CheckHookAttributes<
+      TResult,
+      InferFieldsSchema<MergeFields<TFields, TExtraFields>>
+    >
+): DefinedAdapter<TModel, MergeFields<TFields, TExtraFields>> => {
+  const definition = {
+    ...base.definition,
+    ...overrides,
+    fields: {...base.definition.fields, ...overrides.fields},
+    hooks: {...base.definition.hooks, ...overrides.hooks},
+  }
+
+  return defineAdapter(
+    definition as unknown as AdapterDefinition<TModel, MergeFields<TFields, TExtraFields>>
+  )
+}
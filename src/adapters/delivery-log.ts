@@ -0,0 +1,120 @@
+import type {AuthContext, Where} from "better-auth"
+import type {AttioPluginOptions} from "../index.js"
+import type {SyncEvent} from "./types.js"
+
+/**
+ * Default time in seconds delivery attempts are kept in the log (7 days)
+ */
+export const DEFAULT_DELIVERY_LOG_RETENTION = 60 * 60 * 24 * 7
+
+// pruning runs at most once per interval and database, instead of after every delivery
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000
+const lastPrunedAt = new WeakMap<object, number>()
+
+/**
+ * Logged attempt to deliver an event to an integration
+ */
+export type DeliveryLogEntry = {
+  id: string
+  integrationId: string
+  outboxId: string
+  model: string
+  event: SyncEvent
+  recordId: string | null
+  status: "delivered" | "retrying" | "failed"
+  httpStatus: number | null
+  latency: number // milliseconds
+  attempt: number
+  error: string | null
+  createdAt: Date
+}
+
+export type DeliveryLogOptions = {
+  /**
+   * Time in seconds delivery attempts are kept
+   * Defaults to 604800 (7 days)
+   */
+  retention?: number
+}
+
+export type DeliveryLogFilter = Partial<
+  Pick<DeliveryLogEntry, "integrationId" | "outboxId" | "model" | "event" | "recordId" | "status">
+> & {
+  since?: Date
+  until?: Date
+  limit?: number
+  offset?: number
+}
+
+/**
+ * Record a delivery attempt, failures to log never affect the delivery itself
+ */
+export const logDelivery = async (
+  ctx: AuthContext,
+  opts: AttioPluginOptions,
+  entry: Omit<DeliveryLogEntry, "id" | "createdAt">
+) => {
+  if (opts.deliveryLog === false) return
+
+  try {
+    await ctx.adapter.create({
+      model: "attioDelivery",
+      data: {...entry, createdAt: new Date()},
+    })
+  } catch (error) {
+    console.error("Error logging delivery:", error)
+  }
+}
+
+/**
+ * Remove delivery attempts that are past the retention period, at most once an hour
+ */
+export const pruneDeliveryLog = async (ctx: AuthContext, opts: AttioPluginOptions) => {
+  if (opts.deliveryLog === false) return
+  if (Date.now() - (lastPrunedAt.get(ctx.adapter) ?? 0) < PRUNE_INTERVAL_MS) return
+  lastPrunedAt.set(ctx.adapter, Date.now())
+
+  const retention = opts.deliveryLog?.retention ?? DEFAULT_DELIVERY_LOG_RETENTION
+  try {
+    await ctx.adapter.deleteMany({
+      model: "attioDelivery",
+      where: [{field: "createdAt", operator: "lt", value: new Date(Date.now() - retention * 1000)}],
+    })
+  } catch (error) {
+    console.error("Error pruning delivery log:", error)
+  }
+}
+
+/**
+ * List logged delivery attempts, newest first
+ */
+export const listDeliveries = async (
+  ctx: AuthContext,
+  {since, until, limit = 50, offset = 0, ...filter}: DeliveryLogFilter = {}
+) => {
+  const where: Where[] = []
+  for (const [field, value] of Object.entries(filter)) {
+    if (value !== undefined) {
+      where.push({field, value})
+    }
+  }
+  if (since) {
+    where.push({field: "createdAt", operator: "gte", value: since})
+  }
+  if (until) {
+    where.push({field: "createdAt", operator: "lte", value: until})
+  }
+
+  const [deliveries, total] = await Promise.all([
+    ctx.adapter.findMany<DeliveryLogEntry>({
+      model: "attioDelivery",
+      where,
+      sortBy: {field: "createdAt", direction: "desc"},
+      limit,
+      offset,
+    }),
+    ctx.adapter.count({model: "attioDelivery", where}),
+  ])
+
+  return {deliveries, total}
+}
@@ -1,8 +1,8 @@
 import {defaultAdapters} from "./index.js"
-import type {ModelAdapter} from "./types.js"
+import type {AnyModelAdapter} from "./types.js"
 
-export function getAdapters(userAdapters?: ModelAdapter[]): ModelAdapter[] {
-  const adapters: ModelAdapter[] = []
+export function getAdapters(userAdapters?: AnyModelAdapter[]): AnyModelAdapter[] {
+  const adapters: AnyModelAdapter[] = []
   const userAdapterModels = new Set(userAdapters?.map((a) => a.betterAuthModel) || [])
 
   for (const defaultAdapter of defaultAdapters) {
@@ -19,12 +19,15 @@ export function getAdapters(userAdapters?: ModelAdapter[]): ModelAdapter[] {
 }
 
 export function getAdapterByModel(
-  adapters: ModelAdapter[],
+  adapters: AnyModelAdapter[],
   model: string
-): ModelAdapter | undefined {
+): AnyModelAdapter | undefined {
   return adapters.find((a) => a.betterAuthModel === model)
 }
 
-export function getAdaptersByAttioObject(adapters: ModelAdapter[], object: string): ModelAdapter[] {
+export function getAdaptersByAttioObject(
+  adapters: AnyModelAdapter[],
+  object: string
+): AnyModelAdapter[] {
   return adapters.filter((a) => a.attioObject === object)
 }
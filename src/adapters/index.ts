@@ -1,8 +1,8 @@
 import {organizationAdapter} from "./organization.js"
-import type {ModelAdapter} from "./types.js"
+import type {AnyModelAdapter} from "./types.js"
 import {userAdapter} from "./user.js"
 
 /**
  * Default adapters for common Better Auth models
  */
-export const defaultAdapters: ModelAdapter[] = [userAdapter, organizationAdapter]
+export const defaultAdapters: AnyModelAdapter[] = [userAdapter, organizationAdapter]
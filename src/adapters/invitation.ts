@@ -0,0 +1,190 @@
+import type {AuthContext, Where} from "better-auth"
+import type {Invitation} from "better-auth/plugins"
+import type {AttioPluginOptions} from "../index.js"
+import {defineAdapter} from "./define.js"
+import {getAdapterByModel} from "./helpers.js"
+import {sendWebhookEvent} from "./send-event.js"
+import type {AdapterFields} from "./types.js"
+import {findAttioId, findManyIn} from "./utils.js"
+
+export type InvitationModel = Invitation & {attioId?: string | null}
+
+const fields = {
+  id: {
+    attribute: "invitation_id",
+    type: "text",
+    title: "Invitation ID",
+    description: "Better Auth invitation ID",
+    is_unique: true,
+    is_required: true,
+    fromAttio: false,
+  },
+  email: {
+    attribute: "email",
+    type: "email-address",
+    title: "Email",
+    description: "Email address of the invited user",
+    is_required: true,
+    fromAttio: false,
+  },
+  role: {
+    attribute: "role",
+    type: "text",
+    title: "Role",
+    description: "Role(s) the user is invited with, comma separated",
+    fromAttio: false,
+  },
+  status: {
+    attribute: "status",
+    type: "text",
+    title: "Status",
+    description: "pending, accepted, rejected, cancelled or expired",
+    // Better Auth doesn't update the status of expired invitations
+    toAttio: (value, values) =>
+      value === "pending" && new Date(values.expiresAt) < new Date() ? "expired" : value,
+    fromAttio: false,
+  },
+  expiresAt: {
+    attribute: "expires_at",
+    type: "timestamp",
+    title: "Expires At",
+    description: "When the invitation expires",
+    fromAttio: false,
+  },
+  inviterId: {
+    attribute: "inviter",
+    type: "record-reference",
+    title: "Inviter",
+    description: "User who sent the invitation",
+    config: {
+      allowed_objects: ["users"],
+    },
+    toAttio: (value, _, ctx) => findAttioId(ctx, "user", value),
+    fromAttio: false,
+  },
+  organizationId: {
+    attribute: "workspace",
+    type: "record-reference",
+    title: "Workspace",
+    description: "Organization the user is invited to",
+    is_required: true,
+    config: {
+      allowed_objects: ["workspaces"],
+    },
+    toAttio: (value, _, ctx) => findAttioId(ctx, "organization", value),
+    fromAttio: false,
+  },
+} as const satisfies AdapterFields<InvitationModel>
+
+/**
+ * Mirrors organization invitations to an "invitations" object
+ * Invitations are managed in Better Auth, records from Attio are only linked, never written
+ * Not registered by default, add it to `adapters` to use it
+ */
+export const invitationAdapter = defineAdapter<InvitationModel, typeof fields>({
+  betterAuthModel: "invitation",
+  attioObject: "invitations",
+  idField: "invitation_id",
+  fields,
+
+  hooks: {
+    fromAttio: async (event, values, ctx, mapped) => {
+      if (event !== "create") return mapped
+
+      // records created in Attio are linked to their invitation, but never create one
+      const invitation = values.invitation_id
+        ? await ctx.adapter.findOne<InvitationModel>({
+            model: "invitation",
+            where: [{field: "id", value: values.invitation_id}],
+          })
+        : null
+
+      return invitation ? mapped : null
+    },
+  },
+
+  onMissing: "ignore",
+  syncDeletions: false,
+})
+
+export type ExpiredInvitationsOptions = {
+  /**
+   * Only send invitations that expired after this date
+   * Defaults to 7 days ago
+   */
+  since?: Date
+
+  /**
+   * Maximum number of invitations sent per call
+   * Defaults to 100
+   */
+  limit?: number
+}
+
+// expired invitations stay pending in Better Auth, so older ones aren't looked at again
+const DEFAULT_EXPIRED_WINDOW = 1000 * 60 * 60 * 24 * 7
+
+/**
+ * Send pending invitations that are past their expiry to Attio, so they show up as expired
+ * Better Auth doesn't update invitations when they expire. Invitations synced since expiring were
+ * already sent as expired and are skipped, the oldest remaining ones are sent first.
+ */
+export const syncExpiredInvitations = async (
+  ctx: AuthContext,
+  opts: AttioPluginOptions,
+  {
+    since = new Date(Date.now() - DEFAULT_EXPIRED_WINDOW),
+    limit = 100,
+  }: ExpiredInvitationsOptions = {}
+) => {
+  const adapter = getAdapterByModel(opts.adapters ?? [], "invitation")
+  if (!adapter) return 0
+
+  const where: Where[] = [
+    {field: "status", value: "pending"},
+    {field: "expiresAt", operator: "lte", value: new Date()},
+    {field: "expiresAt", operator: "gte", value: since},
+  ]
+
+  const expired: InvitationModel[] = []
+  for (let offset = 0; expired.length < limit; offset += limit) {
+    const page = await ctx.adapter.findMany<InvitationModel>({
+      model: "invitation",
+      where,
+      sortBy: {field: "expiresAt", direction: "asc"},
+      limit,
+      offset,
+    })
+
+    const states = await findManyIn<{model: string; recordId: string; updatedAt: Date}>(
+      ctx,
+      "attioSyncState",
+      "recordId",
+      page.map((invitation) => invitation.id),
+      limit
+    )
+    const syncedAt = new Map(
+      states
+        .filter((state) => state.model === "invitation")
+        .map((state) => [state.recordId, new Date(state.updatedAt)])
+    )
+
+    for (const invitation of page) {
+      const lastSyncedAt = syncedAt.get(invitation.id)
+      if (!lastSyncedAt || lastSyncedAt < new Date(invitation.expiresAt)) {
+        expired.push(invitation)
+      }
+    }
+
+    if (page.length < limit) break
+  }
+
+  const invitations = expired.slice(0, limit)
+
+  // queued in the same tick, so they're delivered together in one batch
+  await Promise.all(
+    invitations.map((invitation) => sendWebhookEvent("update", invitation, adapter, ctx, opts))
+  )
+
+  return invitations.length
+}
@@ -0,0 +1,100 @@
+import type {Member} from "better-auth/plugins"
+import {defineAdapter} from "./define.js"
+import type {AdapterFields} from "./types.js"
+import {findAttioId, findLocalId} from "./utils.js"
+
+export type MemberModel = Member & {attioId?: string | null}
+
+const fields = {
+  id: {
+    attribute: "membership_id",
+    type: "text",
+    title: "Membership ID",
+    description: "Better Auth member ID",
+    is_unique: true,
+    is_required: true,
+    fromAttio: false,
+  },
+  userId: {
+    attribute: "user",
+    type: "record-reference",
+    title: "User",
+    description: "Member user",
+    is_required: true,
+    config: {
+      allowed_objects: ["users"],
+    },
+    toAttio: (value, _, ctx) => findAttioId(ctx, "user", value),
+    fromAttio: (value, _, ctx) => findLocalId(ctx, "user", value),
+  },
+  organizationId: {
+    attribute: "workspace",
+    type: "record-reference",
+    title: "Workspace",
+    description: "Organization the user is a member of",
+    is_required: true,
+    config: {
+      allowed_objects: ["workspaces"],
+    },
+    toAttio: (value, _, ctx) => findAttioId(ctx, "organization", value),
+    fromAttio: (value, _, ctx) => findLocalId(ctx, "organization", value),
+  },
+  role: {
+    attribute: "role",
+    type: "text",
+    title: "Role",
+    description: "Member role(s), comma separated",
+  },
+  createdAt: {
+    attribute: "joined_at",
+    type: "timestamp",
+    title: "Joined At",
+    description: "When the user joined the organization",
+  },
+} as const satisfies AdapterFields<MemberModel>
+
+/**
+ * Syncs organization members with their role to a "memberships" object
+ * Not registered by default, add it to `adapters` to use it
+ */
+export const memberAdapter = defineAdapter<MemberModel, typeof fields>({
+  betterAuthModel: "member",
+  attioObject: "memberships",
+  idField: "membership_id",
+  fields,
+
+  hooks: {
+    fromAttio: async (event, _, ctx, mapped) => {
+      if (event !== "create") return mapped
+
+      // memberships can't exist without their user and organization
+      if (!mapped.userId || !mapped.organizationId) return null
+
+      // link to the existing member instead of adding the user twice
+      const existing = await ctx.adapter.findOne<MemberModel>({
+        model: "member",
+        where: [
+          {field: "organizationId", value: mapped.organizationId},
+          {field: "userId", value: mapped.userId},
+        ],
+      })
+
+      if (existing) {
+        await ctx.adapter.update({
+          model: "member",
+          where: [{field: "id", value: existing.id}],
+          update: {
+            attioId: mapped.attioId,
+            ...(mapped.role && {role: mapped.role}),
+          },
+        })
+        return null // skip default flow
+      }
+
+      return {role: "member", ...mapped}
+    },
+  },
+
+  onMissing: "create",
+  syncDeletions: true,
+})
@@ -0,0 +1,197 @@
+import type {AuthContext, Session} from "better-auth"
+import type {Member} from "better-auth/plugins"
+import type {AttioPluginOptions} from "../index.js"
+import {extendAdapter} from "./define.js"
+import type {OrganizationModel} from "./organization.js"
+import {sendWebhookEvent} from "./send-event.js"
+import {getLastSyncedAt} from "./sync-state.js"
+import type {AdapterFields, AnyModelAdapter, DefinedAdapter} from "./types.js"
+import type {UserModel} from "./user.js"
+import {chunk, findAllPaged} from "./utils.js"
+
+export type ActivityMetricsOptions = {
+  /**
+   * Minimum time in seconds between user updates triggered by new sessions
+   * Defaults to 300 (5 minutes)
+   */
+  throttle?: number
+
+  /**
+   * Maximum number of members whose sessions are checked for the last activity of a workspace,
+   * the oldest members are kept, same as the organization adapter's `maxMembers`
+   * Defaults to 1000
+   */
+  maxMembers?: number
+}
+
+const DAY = 1000 * 60 * 60 * 24
+
+// user IDs per `in` query of sessions
+const BATCH_SIZE = 100
+
+const DEFAULT_MAX_MEMBERS = 1000
+
+const getLatestSession = async (ctx: AuthContext, userIds: string[]) => {
+  let latest: Session | null = null
+  for (const batch of chunk(userIds, BATCH_SIZE)) {
+    const [session] = await ctx.adapter.findMany<Session>({
+      model: "session",
+      where: [{field: "userId", operator: "in", value: batch}],
+      sortBy: {field: "createdAt", direction: "desc"},
+      limit: 1,
+    })
+    if (session && (!latest || session.createdAt > latest.createdAt)) {
+      latest = session
+    }
+  }
+  return latest
+}
+
+/**
+ * Computed user attributes, derived from the user's sessions
+ * Sessions are removed on sign-out and expiry, so counts only cover sessions still on record
+ */
+export const userActivityFields = {
+  lastSignInAt: {
+    attribute: "last_sign_in_at",
+    type: "timestamp",
+    title: "Last Sign In",
+    description: "When the user last signed in",
+    fromAttio: false,
+    toAttio: async (_, values, ctx) =>
+      (await getLatestSession(ctx, [values.id]))?.createdAt ?? null,
+  },
+  sessionCount: {
+    attribute: "session_count",
+    type: "number",
+    title: "Session Count",
+    description:
+      "Number of sessions on record, sessions removed on sign-out or expiry aren't counted",
+    fromAttio: false,
+    toAttio: (_, values, ctx) =>
+      ctx.adapter.count({
+        model: "session",
+        where: [{field: "userId", value: values.id}],
+      }),
+  },
+  activeSessionCount: {
+    attribute: "active_session_count",
+    type: "number",
+    title: "Active Sessions",
+    description: "Number of sessions that haven't expired",
+    fromAttio: false,
+    toAttio: (_, values, ctx) =>
+      ctx.adapter.count({
+        model: "session",
+        where: [
+          {field: "userId", value: values.id},
+          {field: "expiresAt", operator: "gt", value: new Date()},
+        ],
+      }),
+  },
+  accountAgeDays: {
+    attribute: "account_age_days",
+    type: "number",
+    title: "Account Age (Days)",
+    description: "Days since the user signed up",
+    fromAttio: false,
+    toAttio: (_, values) => Math.floor((Date.now() - new Date(values.createdAt).getTime()) / DAY),
+  },
+} as const satisfies AdapterFields<UserModel>
+
+const createOrganizationActivityFields = ({
+  maxMembers = DEFAULT_MAX_MEMBERS,
+}: ActivityMetricsOptions = {}) =>
+  ({
+    memberCount: {
+      attribute: "member_count",
+      type: "number",
+      title: "Member Count",
+      description: "Number of members in the organization",
+      fromAttio: false,
+      toAttio: (_, values, ctx) =>
+        ctx.adapter.count({
+          model: "member",
+          where: [{field: "organizationId", value: values.id}],
+        }),
+    },
+    lastActivityAt: {
+      attribute: "last_activity_at",
+      type: "timestamp",
+      title: "Last Activity",
+      description: "When a member of the organization last signed in",
+      fromAttio: false,
+      toAttio: async (_, values, ctx) => {
+        const members = await findAllPaged<Member>(ctx, {
+          model: "member",
+          where: [{field: "organizationId", value: values.id}],
+          sortBy: {field: "createdAt", direction: "asc"},
+          max: maxMembers,
+          batchSize: BATCH_SIZE,
+        })
+        const session = await getLatestSession(
+          ctx,
+          members.map((m) => m.userId)
+        )
+        return session?.createdAt ?? null
+      },
+    },
+  }) as const satisfies AdapterFields<OrganizationModel>
+
+/**
+ * Computed workspace attributes, derived from the organization's members and their sessions
+ */
+export const organizationActivityFields = createOrganizationActivityFields()
+
+/**
+ * Add the activity attributes to the user and organization adapters
+ * Only adapters created with `defineAdapter` can be extended, others are kept as they are
+ */
+export const withActivityMetrics = (
+  adapters: AnyModelAdapter[],
+  options: ActivityMetricsOptions = {}
+): AnyModelAdapter[] =>
+  adapters.map((adapter) => {
+    if (!("definition" in adapter)) return adapter
+
+    if (adapter.betterAuthModel === "user") {
+      return extendAdapter(adapter as DefinedAdapter<UserModel>, {fields: userActivityFields})
+    }
+    if (adapter.betterAuthModel === "organization") {
+      return extendAdapter(adapter as DefinedAdapter<OrganizationModel>, {
+        fields: createOrganizationActivityFields(options),
+      })
+    }
+    return adapter
+  })
+
+/**
+ * Send the user of a new session to Attio, so its last sign in stays fresh
+ * Skipped if the user was synced within the throttle window
+ */
+export const syncSessionActivity = async (
+  session: Record<string, unknown>,
+  adapter: AnyModelAdapter,
+  ctx: AuthContext,
+  opts: AttioPluginOptions
+) => {
+  const userId = session.userId
+  if (typeof userId !== "string") return
+
+  const throttle =
+    (typeof opts.activityMetrics === "object" ? opts.activityMetrics.throttle : undefined) ?? 300
+
+  const lastSyncedAt = await getLastSyncedAt(ctx, adapter.betterAuthModel, userId)
+  if (lastSyncedAt && Date.now() - lastSyncedAt.getTime() < throttle * 1000) {
+    return
+  }
+
+  const user = await ctx.adapter.findOne<Record<string, unknown>>({
+    model: adapter.betterAuthModel,
+    where: [{field: "id", value: userId}],
+  })
+
+  if (user) {
+    await sendWebhookEvent("update", user, adapter, ctx, opts)
+  }
+}
@@ -1,224 +1,86 @@
-import type {User} from "better-auth"
+import type {AuthContext, User} from "better-auth"
 import type {Member, Organization} from "better-auth/plugins"
-import type {ModelAdapter} from "./types.js"
-import {generateSlug, generateUniqueSlug} from "./utils.js"
-
-export const organizationAdapter: ModelAdapter = {
-  betterAuthModel: "organization",
-  attioObject: "workspaces",
-  idField: "workspace_id",
-
-  relatedModels: {
-    member: (values) => values.organizationId as string | null,
-  },
-
-  toAttio: async (event, values, ctx) => {
-    if (event === "delete") {
-      return {_deleted: true, workspace_id: values.id}
-    }
-
-    // get members and convert to Attio user IDs
-    const members = (await ctx.adapter.findMany({
-      model: "member",
-      where: [{field: "organizationId", value: values.id as string}],
-    })) as Member[]
-
-    const userAttioIds = []
-    for (const member of members) {
-      const user = (await ctx.adapter.findOne({
-        model: "user",
-        where: [{field: "id", value: member.userId}],
-      })) as User & {attioId?: string}
-      if (user?.attioId) {
-        userAttioIds.push(user.attioId)
-      }
-    }
-
-    return {
-      record_id: values.attioId as string,
-      workspace_id: values.id,
-      name: values.name,
-      slug: values.slug,
-      avatar_url: values.logo,
-      users: userAttioIds.map((id) => ({
-        target_record_id: id,
-        target_object: "users",
-      })),
-    }
-  },
-
-  fromAttio: async (event, values, ctx) => {
-    if (event === "delete") {
-      const org = (await ctx.adapter.findOne({
-        model: "organization",
-        where: [{field: "attioId", value: values.record_id as string}],
-      })) as Organization
-
-      if (org) {
-        // delete all members first
-        await ctx.adapter.delete({
-          model: "member",
-          where: [{field: "organizationId", value: org.id}],
-        })
+import {defineAdapter} from "./define.js"
+import type {AdapterFields} from "./types.js"
+import type {UserModel} from "./user.js"
+import {
+  chunk,
+  findAllPaged,
+  findManyIn,
+  generateSlug,
+  generateUniqueSlug,
+  getCompanyDomain,
+  getCompanyReference,
+} from "./utils.js"
 
-        // then delete the organization
-        await ctx.adapter.delete({
-          model: "organization",
-          where: [{field: "id", value: org.id}],
-        })
-      }
-
-      return null // skip default flow
-    }
-
-    // organization data
-    const orgData: Record<string, unknown> = {
-      attioId: values.record_id,
-    }
-
-    // only include non-null values
-    if (values.name !== null) orgData.name = values.name
-    if (values.slug !== null) orgData.slug = values.slug
-    if (values.avatar_url !== null) orgData.logo = values.avatar_url
-
-    let orgId: string
-
-    // for create event, just set up the organization
-    if (event === "create") {
-      // check for slug uniqueness
-      const slugToUse = values.slug || generateSlug(String(values.name || "org")) || ""
-      const existingSlug = await ctx.adapter.findOne({
-        model: "organization",
-        where: [{field: "slug", value: slugToUse as string}],
-      })
-
-      const created = await ctx.adapter.create({
-        model: "organization",
-        forceAllowId: true,
-        data: {
-          ...orgData,
-          slug: existingSlug ? generateUniqueSlug(String(values.name || "org")) : slugToUse,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        },
-      })
-      orgId = created.id
-    } else {
-      // for update, find the existing organization
-      const existingOrg = (await ctx.adapter.findOne({
-        model: "organization",
-        where: [{field: "attioId", value: values.record_id as string}],
-      })) as Organization | null
-
-      if (!existingOrg) {
-        return {
-          ...orgData,
-          name: values.name || "Unnamed Organization",
-          slug: values.slug || generateSlug(String(values.name || "org")) || "",
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        }
-      }
-
-      orgId = existingOrg.id
-
-      // update the organization
-      await ctx.adapter.update({
-        model: "organization",
-        where: [{field: "id", value: orgId}],
-        update: {
-          ...orgData,
-          updatedAt: new Date(),
-        },
-      })
-    }
-
-    // sync members based on user references from Attio
-    // get current members
-    const currentMembers: Member[] = await ctx.adapter.findMany({
-      model: "member",
-      where: [{field: "organizationId", value: orgId}],
-    })
-
-    const currentUserIds = new Set(currentMembers.map((m) => m.userId))
-    const newUserIds = new Set<string>()
-
-    // resolve Attio user IDs to Better Auth user IDs
-    // handle both single user (string) and multiple users (array)
-    const rawUsers = values.users
-    const userRefs = rawUsers ? (Array.isArray(rawUsers) ? rawUsers : [rawUsers]) : []
-
-    for (const attioUserId of userRefs) {
-      const user = (await ctx.adapter.findOne({
-        model: "user",
-        where: [{field: "attioId", value: attioUserId}],
-      })) as User | null
-
-      if (user) {
-        newUserIds.add(user.id)
-      }
-      // if user doesn't exist locally, we skip them
-      // could optionally fetch from Attio and create if onMissing === "create"
-    }
-
-    // remove members no longer in Attio
-    for (const member of currentMembers) {
-      if (!newUserIds.has(member.userId)) {
-        await ctx.adapter.delete({
-          model: "member",
-          where: [
-            {field: "organizationId", value: orgId},
-            {field: "userId", value: member.userId},
-          ],
-        })
-      }
-    }
+export type OrganizationModel = Organization & {
+  attioId?: string | null
+  domain?: string | null // optional additional field, used to match the company in Attio
+}
 
-    // add new members
-    for (const userId of newUserIds) {
-      if (!currentUserIds.has(userId)) {
-        await ctx.adapter.create({
-          model: "member",
-          data: {
-            organizationId: orgId,
-            userId,
-            role: "member", // default role
-            createdAt: new Date(),
-            updatedAt: new Date(),
-          },
-        })
-      }
-    }
+export type OrganizationAdapterOptions = {
+  /**
+   * Maximum number of members sent to Attio per organization, the oldest members are kept
+   * Members beyond the cap are never removed by syncs from Attio
+   */
+  maxMembers?: number
+
+  /**
+   * Number of members read per page and users looked up per `in` query
+   * Defaults to 100
+   */
+  batchSize?: number
+}
 
-    return {id: orgId, attioId: values.record_id}
-  },
+/**
+ * Load the members of an organization page by page, oldest first
+ */
+const findMembers = (
+  ctx: AuthContext,
+  organizationId: string,
+  {maxMembers, batchSize}: {maxMembers?: number; batchSize: number}
+) =>
+  findAllPaged<Member>(ctx, {
+    model: "member",
+    where: [{field: "organizationId", value: organizationId}],
+    sortBy: {field: "createdAt", direction: "asc"},
+    max: maxMembers,
+    batchSize,
+  })
 
-  attioSchema: {
-    workspace_id: {
+const createFields = ({maxMembers, batchSize}: {maxMembers?: number; batchSize: number}) =>
+  ({
+    id: {
+      attribute: "workspace_id",
       type: "text",
       title: "Workspace ID",
       description: "Better Auth organization ID",
       is_unique: true,
       is_required: true,
+      fromAttio: false,
     },
     name: {
+      attribute: "name",
       type: "text",
       title: "Name",
       description: "Organization name",
       is_required: true,
     },
     slug: {
+      attribute: "slug",
       type: "text",
       title: "Slug",
       description: "URL-friendly organization identifier",
       is_unique: true,
     },
-    avatar_url: {
+    logo: {
+      attribute: "avatar_url",
       type: "text",
       title: "Avatar URL",
       description: "Organization logo/avatar image URL",
     },
-    users: {
+    members: {
+      attribute: "users",
       type: "record-reference",
       title: "Users",
       description: "Users who are members of this organization",
@@ -226,9 +88,225 @@ export const organizationAdapter: ModelAdapter = {
       config: {
         allowed_objects: ["users"],
       },
+      // members are synced by the fromAttio hook below
+      fromAttio: false,
+      toAttio: async (_, values, ctx) => {
+        // get members and convert to Attio user IDs
+        const members = await findMembers(ctx, values.id, {maxMembers, batchSize})
+        const users = await findManyIn<UserModel>(
+          ctx,
+          "user",
+          "id",
+          members.map((m) => m.userId),
+          batchSize
+        )
+        const attioIds = new Map(users.map((user) => [user.id, user.attioId]))
+
+        return members.flatMap((member) => {
+          const id = attioIds.get(member.userId)
+          return id ? [{target_record_id: id, target_object: "users"}] : []
+        })
+      },
     },
-  },
+    company: {
+      attribute: "company",
+      type: "record-reference",
+      title: "Company",
+      description:
+        "Company in Attio, matched by the organization's domain or its owner's email domain",
+      config: {
+        allowed_objects: ["companies"],
+      },
+      fromAttio: false,
+      toAttio: async (_, values, ctx) => {
+        if (values.domain) {
+          return getCompanyReference(values.domain.toLowerCase())
+        }
+
+        const owners = await ctx.adapter.findMany<Member>({
+          model: "member",
+          where: [
+            {field: "organizationId", value: values.id},
+            {field: "role", operator: "contains", value: "owner"},
+          ],
+          sortBy: {field: "createdAt", direction: "asc"},
+          limit: 1,
+        })
+        const owner = owners[0]
+        if (!owner) return null
+
+        const user = await ctx.adapter.findOne<User>({
+          model: "user",
+          where: [{field: "id", value: owner.userId}],
+        })
+        return getCompanyReference(getCompanyDomain(user?.email))
+      },
+    },
+  }) as const satisfies AdapterFields<OrganizationModel>
+
+/**
+ * Create the organization adapter with custom membership limits
+ * Use it in place of `organizationAdapter` for organizations with very large member lists
+ */
+export const createOrganizationAdapter = ({
+  maxMembers,
+  batchSize = 100,
+}: OrganizationAdapterOptions = {}) => {
+  const fields = createFields({maxMembers, batchSize})
+
+  return defineAdapter<OrganizationModel, typeof fields>({
+    betterAuthModel: "organization",
+    attioObject: "workspaces",
+    idField: "workspace_id",
 
-  onMissing: "create",
-  syncDeletions: true,
+    relatedModels: {
+      member: (values) => values.organizationId as string | null,
+    },
+    fields,
+
+    hooks: {
+      fromAttio: async (event, values, ctx, mapped) => {
+        if (event === "delete") {
+          const org = (await ctx.adapter.findOne({
+            model: "organization",
+            where: [{field: "attioId", value: values.record_id as string}],
+          })) as Organization
+
+          if (org) {
+            // delete all members first
+            await ctx.adapter.deleteMany({
+              model: "member",
+              where: [{field: "organizationId", value: org.id}],
+            })
+
+            // then delete the organization
+            await ctx.adapter.delete({
+              model: "organization",
+              where: [{field: "id", value: org.id}],
+            })
+          }
+
+          return null // skip default flow
+        }
+
+        // organization data, timestamps are set below
+        const {createdAt: _, ...orgData} = mapped as Partial<OrganizationModel> & {updatedAt?: Date}
+        delete orgData.updatedAt
+
+        let orgId: string
+
+        // for create event, just set up the organization
+        if (event === "create") {
+          // check for slug uniqueness
+          const slugToUse = values.slug || generateSlug(String(values.name || "org")) || ""
+          const existingSlug = await ctx.adapter.findOne({
+            model: "organization",
+            where: [{field: "slug", value: slugToUse as string}],
+          })
+
+          const created = await ctx.adapter.create({
+            model: "organization",
+            forceAllowId: true,
+            data: {
+              ...orgData,
+              slug: existingSlug ? generateUniqueSlug(String(values.name || "org")) : slugToUse,
+              createdAt: new Date(),
+              updatedAt: new Date(),
+            },
+          })
+          orgId = created.id
+        } else {
+          // for update, find the existing organization
+          const existingOrg = (await ctx.adapter.findOne({
+            model: "organization",
+            where: [{field: "attioId", value: values.record_id as string}],
+          })) as Organization | null
+
+          if (!existingOrg) {
+            return {
+              ...orgData,
+              name: values.name || "Unnamed Organization",
+              slug: values.slug || generateSlug(String(values.name || "org")) || "",
+              createdAt: new Date(),
+              updatedAt: new Date(),
+            }
+          }
+
+          orgId = existingOrg.id
+
+          // update the organization
+          await ctx.adapter.update({
+            model: "organization",
+            where: [{field: "id", value: orgId}],
+            update: {
+              ...orgData,
+              updatedAt: new Date(),
+            },
+          })
+        }
+
+        // the users attribute wasn't sent, e.g. because it's owned by the app
+        if (values.users === undefined) {
+          return {id: orgId, attioId: values.record_id}
+        }
+
+        // sync members based on user references from Attio
+        const currentMembers = await findMembers(ctx, orgId, {batchSize})
+
+        // resolve Attio user IDs to Better Auth user IDs
+        // handle both single user (string) and multiple users (array)
+        const rawUsers = values.users
+        const userRefs = rawUsers ? (Array.isArray(rawUsers) ? rawUsers : [rawUsers]) : []
+        const users = await findManyIn<UserModel>(ctx, "user", "attioId", userRefs, batchSize)
+
+        // users that don't exist locally are skipped
+        const currentUserIds = new Set(currentMembers.map((m) => m.userId))
+        const newUserIds = new Set(users.map((u) => u.id))
+
+        // remove members no longer in Attio
+        // with capped memberships Attio only knows part of the members, so none are removed
+        const removedUserIds =
+          maxMembers !== undefined && currentMembers.length > maxMembers
+            ? []
+            : [...currentUserIds].filter((userId) => !newUserIds.has(userId))
+
+        for (const batch of chunk(removedUserIds, batchSize)) {
+          await ctx.adapter.deleteMany({
+            model: "member",
+            where: [
+              {field: "organizationId", value: orgId},
+              {field: "userId", operator: "in", value: batch},
+            ],
+          })
+        }
+
+        // add new members
+        const addedUserIds = [...newUserIds].filter((userId) => !currentUserIds.has(userId))
+
+        for (const batch of chunk(addedUserIds, batchSize)) {
+          await Promise.all(
+            batch.map((userId) =>
+              ctx.adapter.create({
+                model: "member",
+                data: {
+                  organizationId: orgId,
+                  userId,
+                  role: "member", // default role
+                  createdAt: new Date(),
+                  updatedAt: new Date(),
+                },
+              })
+            )
+          )
+        }
+
+        return {id: orgId, attioId: values.record_id}
+      },
+    },
+
+    onMissing: "create",
+    syncDeletions: true,
+  })
 }
+
+export const organizationAdapter = createOrganizationAdapter()
@@ -0,0 +1,5 @@
+/**
+ * Where a change originated
+ * "app" for changes made in Better Auth, "attio" for changes received from Attio
+ */
+export type SyncOrigin = "app" | "attio"
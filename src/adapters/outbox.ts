@@ -0,0 +1,293 @@
+import type {AuthContext} from "better-auth"
+import type {AttioPluginOptions} from "../index.js"
+import {signPayload} from "../utils/signature.js"
+import {logDelivery, pruneDeliveryLog} from "./delivery-log.js"
+import type {SyncEvent} from "./types.js"
+
+/**
+ * Linked Attio workspace receiving outbound sync events
+ */
+export type AttioIntegration = {
+  id: string
+  webhookUrl: string
+  secret?: string | null
+}
+
+/**
+ * Persisted delivery waiting to be sent to an integration
+ */
+export type OutboxEntry = {
+  id: string
+  integrationId: string
+  model: string
+  event: SyncEvent
+  recordId?: string | null
+  payload: string
+  attempts: number
+  status: "pending" | "failed"
+  nextAttemptAt: Date
+  lastError?: string | null
+  createdAt: Date
+}
+
+export type OutboxOptions = {
+  /**
+   * Maximum delivery attempts before an entry is marked as failed
+   * Defaults to 8
+   */
+  maxAttempts?: number
+
+  /**
+   * Delay in seconds before the first retry, doubled on every further attempt
+   * Defaults to 30
+   */
+  baseDelay?: number
+
+  /**
+   * Upper bound in seconds for the retry delay
+   * Defaults to 3600
+   */
+  maxDelay?: number
+
+  /**
+   * Maximum number of due entries processed per drain, and of events sent in a single request
+   * Defaults to 50
+   */
+  batchSize?: number
+}
+
+export type DrainResult = {
+  delivered: number
+  retrying: number
+  failed: number
+}
+
+// how long a claimed entry is hidden from other drains while it's being delivered
+const LEASE_MS = 60 * 1000
+
+// delivery requests are aborted before the lease runs out, so no other drain delivers them again
+const DELIVERY_TIMEOUT_MS = 15 * 1000
+
+export const resolveOptions = (opts: AttioPluginOptions) => ({
+  maxAttempts: opts.outbox?.maxAttempts ?? 8,
+  baseDelay: opts.outbox?.baseDelay ?? 30,
+  maxDelay: opts.outbox?.maxDelay ?? 60 * 60,
+  batchSize: opts.outbox?.batchSize ?? 50,
+})
+
+/**
+ * Exponential backoff delay in milliseconds for the given attempt count
+ */
+export const getRetryDelay = (attempts: number, opts: AttioPluginOptions) => {
+  const {baseDelay, maxDelay} = resolveOptions(opts)
+  return Math.min(maxDelay, baseDelay * 2 ** Math.max(0, attempts - 1)) * 1000
+}
+
+/**
+ * Secret used to sign deliveries for an integration
+ * Integrations linked before per-integration secrets existed fall back to the plugin secret
+ */
+export const getSigningSecret = (
+  ctx: AuthContext,
+  opts: AttioPluginOptions,
+  integration: AttioIntegration
+) => integration.secret || opts.secret || ctx.secret
+
+/**
+ * Persist a pending delivery before the first attempt, so it survives crashes and outages
+ */
+export const enqueueDelivery = async (
+  ctx: AuthContext,
+  integration: AttioIntegration,
+  {model, event, recordId}: Pick<OutboxEntry, "model" | "event" | "recordId">,
+  payload: string
+) => {
+  const now = new Date()
+  return ctx.adapter.create<Omit<OutboxEntry, "id">, OutboxEntry>({
+    model: "attioOutbox",
+    data: {
+      integrationId: integration.id,
+      model,
+      event,
+      recordId,
+      payload,
+      attempts: 0,
+      status: "pending",
+      nextAttemptAt: now,
+      createdAt: now,
+    },
+  })
+}
+
+/**
+ * Attempt to deliver outbox entries of an integration in a single request
+ * The body holds the events of all entries, e.g. `{"events": [...]}`
+ * Removes the entries on success, reschedules them with backoff on failure
+ */
+export const attemptDeliveries = async (
+  ctx: AuthContext,
+  opts: AttioPluginOptions,
+  entries: OutboxEntry[],
+  integration: AttioIntegration
+): Promise<(keyof DrainResult)[]> => {
+  const {maxAttempts} = resolveOptions(opts)
+
+  // claim the entries by bumping their attempt counter, another drain might have taken them
+  const claimed: OutboxEntry[] = []
+  for (const entry of entries) {
+    const updated = await ctx.adapter.updateMany({
+      model: "attioOutbox",
+      where: [
+        {field: "id", value: entry.id},
+        {field: "attempts", value: entry.attempts},
+      ],
+      update: {
+        attempts: entry.attempts + 1,
+        nextAttemptAt: new Date(Date.now() + LEASE_MS),
+      },
+    })
+    if (updated) {
+      claimed.push(entry)
+    }
+  }
+
+  if (!claimed.length) {
+    return []
+  }
+
+  // payloads are stored as JSON, so they can be joined without parsing them again
+  const body = `{"events":[${claimed.map((entry) => entry.payload).join(",")}]}`
+
+  let error: string | null = null
+  let httpStatus: number | null = null
+  const startedAt = Date.now()
+
+  try {
+    // TODO: might have to replace w/ better-fetch
+    const response = await fetch(integration.webhookUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(await signPayload(getSigningSecret(ctx, opts, integration), body)),
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    })
+    httpStatus = response.status
+
+    if (!response.ok) {
+      error = `Webhook delivery failed: ${response.status}`
+    }
+  } catch (e) {
+    error = `Failed to deliver webhook to Attio: ${e instanceof Error ? e.message : String(e)}`
+  }
+
+  if (error) {
+    console.error(error)
+  }
+
+  const latency = Date.now() - startedAt
+
+  return Promise.all(
+    claimed.map(async (entry) => {
+      const attempts = entry.attempts + 1
+      let status: keyof DrainResult
+
+      if (!error) {
+        await ctx.adapter.delete({
+          model: "attioOutbox",
+          where: [{field: "id", value: entry.id}],
+        })
+        status = "delivered"
+      } else if (attempts >= maxAttempts) {
+        await ctx.adapter.update({
+          model: "attioOutbox",
+          where: [{field: "id", value: entry.id}],
+          update: {status: "failed", lastError: error},
+        })
+        status = "failed"
+      } else {
+        await ctx.adapter.update({
+          model: "attioOutbox",
+          where: [{field: "id", value: entry.id}],
+          update: {
+            nextAttemptAt: new Date(Date.now() + getRetryDelay(attempts, opts)),
+            lastError: error,
+          },
+        })
+        status = "retrying"
+      }
+
+      await logDelivery(ctx, opts, {
+        integrationId: integration.id,
+        outboxId: entry.id,
+        model: entry.model,
+        event: entry.event,
+        recordId: entry.recordId ?? null,
+        status,
+        httpStatus,
+        latency,
+        attempt: attempts,
+        error,
+      })
+
+      return status
+    })
+  )
+}
+
+/**
+ * Deliver all outbox entries that are due for a (re)try
+ */
+export const drainOutbox = async (
+  ctx: AuthContext,
+  opts: AttioPluginOptions
+): Promise<DrainResult> => {
+  const {batchSize} = resolveOptions(opts)
+  const result: DrainResult = {delivered: 0, retrying: 0, failed: 0}
+
+  await pruneDeliveryLog(ctx, opts)
+
+  const entries = await ctx.adapter.findMany<OutboxEntry>({
+    model: "attioOutbox",
+    where: [
+      {field: "status", value: "pending"},
+      {field: "nextAttemptAt", operator: "lte", value: new Date()},
+    ],
+    sortBy: {field: "nextAttemptAt", direction: "asc"},
+    limit: batchSize,
+  })
+
+  if (!entries.length) {
+    return result
+  }
+
+  const integrationIds = [...new Set(entries.map((entry) => entry.integrationId))]
+  const integrations = await ctx.adapter.findMany<AttioIntegration>({
+    model: "attioIntegration",
+    where: [{field: "id", operator: "in", value: integrationIds}],
+  })
+  const integrationMap = new Map(integrations.map((integration) => [integration.id, integration]))
+
+  await Promise.all(
+    integrationIds.map(async (integrationId) => {
+      const integrationEntries = entries.filter((entry) => entry.integrationId === integrationId)
+      const integration = integrationMap.get(integrationId)
+
+      // integration was unlinked in the meantime, nothing to deliver to
+      if (!integration) {
+        await ctx.adapter.deleteMany({
+          model: "attioOutbox",
+          where: [{field: "integrationId", value: integrationId}],
+        })
+        return
+      }
+
+      for (const outcome of await attemptDeliveries(ctx, opts, integrationEntries, integration)) {
+        result[outcome]++
+      }
+    })
+  )
+
+  return result
+}
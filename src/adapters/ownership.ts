@@ -0,0 +1,57 @@
+import type {AnyModelAdapter, AttioValues, SyncEvent} from "./types.js"
+import {getAttioValueTimestamp} from "./utils.js"
+
+/**
+ * Remove attributes owned by Attio from an outbound payload
+ * They're still sent when creating the record, so Attio starts out with the app's value
+ */
+export const applyOutboundOwnership = (
+  adapter: AnyModelAdapter,
+  event: SyncEvent,
+  data: AttioValues
+): AttioValues => {
+  if (!adapter.fieldOwnership || event !== "update") {
+    return data
+  }
+
+  const result: AttioValues = {...data}
+  for (const [attribute, owner] of Object.entries(adapter.fieldOwnership)) {
+    if (owner === "attio") {
+      delete result[attribute]
+    }
+  }
+
+  return result
+}
+
+/**
+ * Remove attributes from inbound values that must not overwrite local data
+ * App-owned attributes are always dropped, last-write-wins attributes are dropped
+ * if the local record was updated after the value was set in Attio
+ */
+export const applyInboundOwnership = (
+  adapter: AnyModelAdapter,
+  rawValues: Record<string, unknown>,
+  values: Record<string, unknown>,
+  existing: Record<string, unknown> | null
+): Record<string, unknown> => {
+  if (!adapter.fieldOwnership) {
+    return values
+  }
+
+  const localUpdatedAt = existing?.updatedAt ? new Date(existing.updatedAt as string | Date) : null
+
+  const result = {...values}
+  for (const [attribute, owner] of Object.entries(adapter.fieldOwnership)) {
+    if (owner === "app") {
+      delete result[attribute]
+    } else if (owner === "last-write-wins" && localUpdatedAt) {
+      const attioUpdatedAt = getAttioValueTimestamp(rawValues[attribute])
+      if (attioUpdatedAt && attioUpdatedAt < localUpdatedAt) {
+        delete result[attribute]
+      }
+    }
+  }
+
+  return result
+}
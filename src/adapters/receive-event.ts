@@ -0,0 +1,166 @@
+import type {AuthContext} from "better-auth"
+import type {AttioPluginOptions} from "../index.js"
+import {decodeAttioValues} from "./codec.js"
+import {applyInboundOwnership} from "./ownership.js"
+import {sendWebhookEvent} from "./send-event.js"
+import {shouldSyncRecord} from "./should-sync.js"
+import type {AnyModelAdapter, AttioRecordEvent, SyncEvent} from "./types.js"
+
+/**
+ * Apply a single record event received from Attio
+ * Returns false if the record was skipped by a sync predicate
+ */
+export const receiveWebhookEvent = async (
+  event: AttioRecordEvent,
+  ctx: AuthContext,
+  opts: AttioPluginOptions
+): Promise<boolean> => {
+  const eventType = event.event_type
+  const record = event.record
+  const object = event.object
+
+  if (!record || !object) return true
+
+  // find the adapter for this Attio object
+  let adapter: AnyModelAdapter | undefined
+  for (const modelAdapter of opts.adapters ?? []) {
+    if (modelAdapter.attioObject === object.api_slug) {
+      adapter = modelAdapter
+      break
+    }
+  }
+
+  if (!adapter) return true
+
+  const attioId = record.id.record_id
+
+  // extract values from Attio format
+  let extractedValues: Record<string, unknown> = {
+    record_id: attioId,
+  }
+  Object.assign(extractedValues, decodeAttioValues(record.values, adapter.attioSchema))
+
+  // determine sync event type
+  let syncEvent: SyncEvent
+  if (eventType === "record.created") {
+    syncEvent = "create"
+  } else if (eventType === "record.updated") {
+    syncEvent = "update"
+  } else if (eventType === "record.deleted") {
+    syncEvent = "delete"
+  } else {
+    return true
+  }
+
+  if (!(await shouldSyncRecord(syncEvent, extractedValues, "inbound", adapter, ctx, opts))) {
+    return false
+  }
+
+  // drop attributes that must not overwrite local data
+  if (adapter.fieldOwnership && syncEvent !== "delete") {
+    const current = (await ctx.adapter.findOne({
+      model: adapter.betterAuthModel,
+      where: [{field: "attioId", value: attioId}],
+    })) as Record<string, unknown> | null
+    extractedValues = applyInboundOwnership(adapter, record.values, extractedValues, current)
+  }
+
+  await applyEvent(syncEvent, attioId, extractedValues, adapter, ctx, opts)
+  return true
+}
+
+const applyEvent = async (
+  syncEvent: SyncEvent,
+  attioId: string,
+  extractedValues: Record<string, unknown>,
+  adapter: AnyModelAdapter,
+  ctx: AuthContext,
+  opts: AttioPluginOptions
+) => {
+  // use adapter to transform data
+  const result = await adapter.fromAttio(syncEvent, extractedValues, ctx)
+
+  // if adapter returned null, it handled everything itself
+  if (result === null) {
+    return
+  }
+
+  // drop fields the adapter left unset, e.g. because their attribute is owned by the app
+  for (const key of Object.keys(result)) {
+    if (result[key] === undefined) delete result[key]
+  }
+
+  // handle default flow based on sync event
+  if (syncEvent === "delete") {
+    if (adapter.syncDeletions !== false) {
+      const existing = (await ctx.adapter.findOne({
+        model: adapter.betterAuthModel,
+        where: [{field: "attioId", value: attioId}],
+      })) as Record<string, unknown> | null
+
+      if (existing) {
+        await ctx.adapter.delete({
+          model: adapter.betterAuthModel,
+          where: [{field: "id", value: existing.id as string}],
+        })
+      }
+    }
+  } else if (syncEvent === "create" || syncEvent === "update") {
+    // check for existing record by attioId first
+    let existing = (await ctx.adapter.findOne({
+      model: adapter.betterAuthModel,
+      where: [{field: "attioId", value: attioId}],
+    })) as Record<string, unknown> | null
+
+    // if not found by attioId, check by the Better Auth ID from Attio
+    // this handles the case where a local record exists but doesn't have attioId yet
+    if (!existing && adapter.idField && extractedValues[adapter.idField]) {
+      const betterAuthId = extractedValues[adapter.idField]
+      if (typeof betterAuthId === "string") {
+        existing = (await ctx.adapter.findOne({
+          model: adapter.betterAuthModel,
+          where: [{field: "id", value: betterAuthId}],
+        })) as Record<string, unknown> | null
+      }
+    }
+
+    // handle onMissing behavior
+    const onMissing = adapter.onMissing || "create"
+
+    if (existing) {
+      // update existing record
+      const updateData = {...result}
+      delete updateData.id // can't update ID
+      delete updateData.createdAt // can't update createdAt
+
+      if (Object.keys(updateData).length > 0) {
+        const updated = (await ctx.adapter.update({
+          model: adapter.betterAuthModel,
+          where: [{field: "id", value: existing.id as string}],
+          update: updateData,
+        })) as Record<string, unknown>
+
+        // trigger webhook for update
+        if (updated) {
+          await sendWebhookEvent("update", updated, adapter, ctx, opts, {origin: "attio"})
+        }
+      }
+    } else if (syncEvent === "create" || onMissing === "create") {
+      // create new record
+      const created = await ctx.adapter.create({
+        model: adapter.betterAuthModel,
+        data: result,
+        forceAllowId: true,
+      })
+
+      // trigger webhook for creation
+      if (created) {
+        await sendWebhookEvent("create", created, adapter, ctx, opts, {origin: "attio"})
+      }
+    } else if (onMissing === "delete") {
+      // send delete event back to Attio to remove orphaned record
+      await sendWebhookEvent("delete", {attioId}, adapter, ctx, opts, {origin: "attio"})
+    }
+    // if onMissing is 'ignore', do nothing
+  }
+}
@@ -0,0 +1,227 @@
+import type {AuthContext, Where} from "better-auth"
+import type {AnyModelAdapter} from "./types.js"
+import {findAllPaged} from "./utils.js"
+
+/**
+ * Maximum number of Attio records per reconciliation page
+ */
+export const MAX_RECONCILE_PAGE_SIZE = 500
+
+/**
+ * Attio record as sent for reconciliation, `id` is the value of the adapter's `idField`
+ */
+export type ReconcileRecord = {
+  record_id: string
+  id: string | null
+}
+
+export type ReconcileOptions = {
+  /**
+   * Page of Attio records, sorted by Better Auth ID
+   * At most 500 records per page
+   */
+  records: ReconcileRecord[]
+
+  /**
+   * Better Auth ID of the last record of the previous page, omit for the first page
+   */
+  after?: string | null
+
+  /**
+   * Whether this is the last page, local records after it are reported as missing remotely
+   * At most 500 of them are checked per call, continue from `next` with an empty page
+   */
+  last?: boolean
+
+  /**
+   * Fix `attioId` links of mismatched local records
+   */
+  repair?: boolean
+}
+
+export type ReconcileResult = {
+  // Attio records without a matching local record
+  missingLocally: ReconcileRecord[]
+
+  // local records in the range of this page without a matching Attio record
+  // their Attio record might still exist on another page, so their links are never repaired
+  missingRemotely: {id: string; attioId: string | null}[]
+
+  // local records whose `attioId` doesn't point to the Attio record with their ID
+  mismatched: {id: string; attioId: string | null; expected: string | null}[]
+
+  duplicates: {
+    // local records linked to the same Attio record
+    local: {attioId: string; ids: string[]}[]
+
+    // Attio records with the same Better Auth ID
+    remote: {id: string; recordIds: string[]}[]
+  }
+
+  repaired: number
+
+  // on the last page, Better Auth ID to continue from if more local records are left to check
+  next: string | null
+}
+
+type LocalRecord = {id: string; attioId?: string | null}
+
+const groupBy = <T>(items: T[], key: (item: T) => string | null | undefined) => {
+  const groups = new Map<string, T[]>()
+  for (const item of items) {
+    const value = key(item)
+    if (!value) continue
+    groups.set(value, [...(groups.get(value) ?? []), item])
+  }
+  return groups
+}
+
+/**
+ * Compare a page of Attio records against the local records of an adapter
+ *
+ * Pages are expected in Better Auth ID order, local records between the previous page and the
+ * last ID of this page (or the remaining ones for the last page, a page at a time) that aren't
+ * part of it are reported as missing remotely.
+ */
+export const reconcileRecords = async (
+  ctx: AuthContext,
+  adapter: AnyModelAdapter,
+  {records, after, last = false, repair = false}: ReconcileOptions
+): Promise<ReconcileResult> => {
+  const model = adapter.betterAuthModel
+  const ids = [...new Set(records.map((r) => r.id).filter((id): id is string => !!id))]
+  const recordIds = records.map((r) => r.record_id)
+
+  const [byId, byAttioId] = await Promise.all([
+    // sorted by the database, so the range below follows its collation
+    ids.length
+      ? ctx.adapter.findMany<LocalRecord>({
+          model,
+          where: [{field: "id", operator: "in", value: ids}],
+          sortBy: {field: "id", direction: "asc"},
+          limit: ids.length,
+        })
+      : [],
+    // several local records may be linked to the same Attio record, so these are paged
+    recordIds.length
+      ? findAllPaged<LocalRecord>(ctx, {
+          model,
+          where: [{field: "attioId", operator: "in", value: recordIds}],
+          sortBy: {field: "id", direction: "asc"},
+        })
+      : [],
+  ])
+
+  const rangeWhere: Where[] = []
+  if (after) {
+    rangeWhere.push({field: "id", operator: "gt", value: after})
+  }
+  const lastId = byId.at(-1)?.id
+  if (!last && lastId) {
+    rangeWhere.push({field: "id", operator: "lte", value: lastId})
+  }
+
+  // without local IDs on a page that isn't the last, there's no range to compare
+  const inRange =
+    last || lastId
+      ? await findAllPaged<LocalRecord>(ctx, {
+          model,
+          where: rangeWhere,
+          sortBy: {field: "id", direction: "asc"},
+          // the rest of the table is checked a page at a time
+          max: last ? MAX_RECONCILE_PAGE_SIZE + 1 : undefined,
+        })
+      : []
+
+  let next: string | null = null
+  if (last && inRange.length > MAX_RECONCILE_PAGE_SIZE) {
+    inRange.length = MAX_RECONCILE_PAGE_SIZE
+    next = inRange.at(-1)?.id ?? null
+  }
+
+  const localById = new Map(byId.map((r) => [r.id, r]))
+  const localByAttioId = groupBy(byAttioId, (r) => r.attioId)
+  const remoteById = groupBy(records, (r) => r.id)
+
+  const result: ReconcileResult = {
+    missingLocally: [],
+    missingRemotely: [],
+    mismatched: [],
+    duplicates: {local: [], remote: []},
+    repaired: 0,
+    next,
+  }
+
+  for (const [attioId, linked] of localByAttioId) {
+    if (linked.length > 1) {
+      result.duplicates.local.push({attioId, ids: linked.map((r) => r.id)})
+    }
+  }
+
+  for (const [id, matches] of remoteById) {
+    if (matches.length > 1) {
+      result.duplicates.remote.push({id, recordIds: matches.map((r) => r.record_id)})
+    }
+  }
+
+  const mismatched = new Map<string, ReconcileResult["mismatched"][number]>()
+
+  for (const record of records) {
+    const local = record.id ? localById.get(record.id) : undefined
+    if (!local) {
+      if (!localByAttioId.has(record.record_id)) {
+        result.missingLocally.push(record)
+      }
+      continue
+    }
+
+    // with several Attio records for the same ID, the correct link can't be determined
+    const ambiguous = (remoteById.get(local.id)?.length ?? 0) > 1
+    if (local.attioId !== record.record_id && !ambiguous) {
+      mismatched.set(local.id, {
+        id: local.id,
+        attioId: local.attioId ?? null,
+        expected: record.record_id,
+      })
+    }
+  }
+
+  // local records linked to an Attio record that belongs to another ID
+  for (const local of byAttioId) {
+    const record = records.find((r) => r.record_id === local.attioId)
+    if (record && record.id !== local.id && !mismatched.has(local.id)) {
+      mismatched.set(local.id, {id: local.id, attioId: local.attioId ?? null, expected: null})
+    }
+  }
+
+  result.mismatched = [...mismatched.values()]
+
+  for (const local of inRange) {
+    // linked to an Attio record on this page that has no ID set, e.g. a half-synced record
+    const linked = !!local.attioId && recordIds.includes(local.attioId)
+    if (!remoteById.has(local.id) && !linked) {
+      result.missingRemotely.push({id: local.id, attioId: local.attioId ?? null})
+    }
+  }
+
+  if (repair) {
+    // only links known to be wrong, links to Attio records that belong to another ID are cleared
+    const updates = new Map<string, string | null>()
+    for (const {id, expected} of result.mismatched) {
+      updates.set(id, expected)
+    }
+
+    // clear links before setting new ones, a record may take over the link of another
+    const sorted = [...updates].sort(([, a], [, b]) => Number(a !== null) - Number(b !== null))
+    for (const [id, attioId] of sorted) {
+      await ctx.adapter.update({
+        model,
+        where: [{field: "id", value: id}],
+        update: {attioId},
+      })
+      result.repaired++
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,162 @@
+import {sha256} from "../utils/signature.js"
+import type {AttioIntegration} from "./outbox.js"
+import type {AnyModelAdapter, AttioAttributeType, AttioValues} from "./types.js"
+
+/**
+ * Redaction rule for outbound payloads, attributes are referenced by their Attio slug
+ * Rules without `model` apply to all adapters, rules without `integration` to all integrations
+ */
+export type RedactionRule = {
+  // Better Auth model of the adapter, e.g. "user"
+  model?: string
+
+  // ID or webhook URL of the integration, e.g. to hash emails for a staging workspace only
+  integration?: string
+
+  // Only send these attributes, all others are dropped
+  allow?: string[]
+
+  // Never send these attributes
+  drop?: string[]
+
+  // Send a SHA-256 hash of the value instead, e.g. to match records without revealing the value
+  hash?: string[]
+
+  // Send a masked value, e.g. "j***@example.com"
+  mask?: string[]
+}
+
+// always sent, Attio needs them to match the record
+const PROTECTED_ATTRIBUTES = new Set(["record_id", "_deleted"])
+
+// attribute types that hold personal data in strings, others can only be dropped
+const REDACTABLE_TYPES = new Set<AttioAttributeType>([
+  "text",
+  "email-address",
+  "domain",
+  "phone-number",
+  "record-reference",
+])
+
+// keys of encoded values holding personal data, e.g. of a person reference matched by email
+// other keys like `target_object` are needed by Attio and kept as they are
+const PERSONAL_DATA_KEYS = new Set(["email_address", "domain", "original_phone_number"])
+
+/**
+ * Apply a function to the personal data in an encoded value
+ * Plain strings are redacted as a whole, in objects only the personal data keys are
+ */
+const redactValue = async (
+  value: unknown,
+  fn: (value: string) => Promise<string> | string,
+  redactStrings: boolean
+): Promise<unknown> => {
+  if (typeof value === "string") {
+    return redactStrings ? fn(value) : value
+  }
+  if (Array.isArray(value)) {
+    return Promise.all(value.map((item) => redactValue(item, fn, redactStrings)))
+  }
+  if (value && typeof value === "object") {
+    const entries = await Promise.all(
+      Object.entries(value).map(async ([key, item]) => [
+        key,
+        await redactValue(item, fn, PERSONAL_DATA_KEYS.has(key)),
+      ])
+    )
+    return Object.fromEntries(entries)
+  }
+  // numbers, booleans and null can't be hashed or masked
+  return value
+}
+
+const maskString = (value: string) => {
+  const [local, domain] = value.split("@")
+  if (local !== undefined && domain !== undefined) {
+    return `${local.slice(0, 1)}***@${domain}`
+  }
+  return value.length <= 2 ? "***" : `${value.slice(0, 1)}***${value.slice(-1)}`
+}
+
+/**
+ * Get the rules that apply to an adapter and integration
+ */
+export const getRedactionRules = (
+  rules: RedactionRule[] | undefined,
+  adapter: AnyModelAdapter,
+  integration?: Pick<AttioIntegration, "id" | "webhookUrl">
+) =>
+  (rules ?? []).filter(
+    (rule) =>
+      (!rule.model || rule.model === adapter.betterAuthModel) &&
+      (!rule.integration ||
+        rule.integration === integration?.id ||
+        rule.integration === integration?.webhookUrl)
+  )
+
+/**
+ * Check that hashed and masked attributes hold strings, e.g. a checkbox can only be dropped
+ * Throws for the first rule that can't be applied to an adapter
+ */
+export const validateRedactionRules = (
+  rules: RedactionRule[] | undefined,
+  adapters: AnyModelAdapter[]
+) => {
+  for (const adapter of adapters) {
+    for (const rule of getRedactionRules(rules, adapter)) {
+      for (const attribute of [...(rule.hash ?? []), ...(rule.mask ?? [])]) {
+        const type = adapter.attioSchema[attribute]?.type
+        if (type && !REDACTABLE_TYPES.has(type)) {
+          throw new Error(
+            `Can't hash or mask attribute "${attribute}" of type "${type}" of model "${adapter.betterAuthModel}", drop it instead`
+          )
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Apply redaction rules to an encoded outbound payload
+ * Rules are applied in order, the adapter's ID field and record identifiers are never redacted.
+ * Attributes derived from a redacted attribute, e.g. a person reference matched by the redacted
+ * email, are dropped, so the value doesn't leak through them.
+ */
+export const applyRedaction = async (
+  data: AttioValues,
+  adapter: AnyModelAdapter,
+  rules: RedactionRule[]
+): Promise<AttioValues> => {
+  if (rules.length === 0) return data
+
+  const result: AttioValues = {...data}
+  const redacted = new Set<string>()
+
+  for (const rule of rules) {
+    for (const key of Object.keys(result)) {
+      if (PROTECTED_ATTRIBUTES.has(key) || key === adapter.idField) continue
+
+      // references are matched by their personal data, so only those parts are redacted
+      const redactStrings = adapter.attioSchema[key]?.type !== "record-reference"
+
+      if ((rule.allow && !rule.allow.includes(key)) || rule.drop?.includes(key)) {
+        delete result[key]
+        redacted.add(key)
+      } else if (rule.hash?.includes(key)) {
+        result[key] = await redactValue(result[key], (value) => sha256(value), redactStrings)
+        redacted.add(key)
+      } else if (rule.mask?.includes(key)) {
+        result[key] = await redactValue(result[key], maskString, redactStrings)
+        redacted.add(key)
+      }
+    }
+  }
+
+  for (const [key, sources] of Object.entries(adapter.derivedAttributes ?? {})) {
+    if (sources?.some((source) => redacted.has(source))) {
+      delete result[key]
+    }
+  }
+
+  return result
+}
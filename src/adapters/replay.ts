@@ -0,0 +1,167 @@
+import type {AuthContext} from "better-auth"
+import type {AttioPluginOptions} from "../index.js"
+import {type DeliveryLogEntry, listDeliveries} from "./delivery-log.js"
+import {getAdapterByModel} from "./helpers.js"
+import {drainOutbox} from "./outbox.js"
+import {sendWebhookEvent} from "./send-event.js"
+
+/**
+ * Maximum number of logged delivery attempts replayed by ID per call
+ */
+export const MAX_REPLAY_DELIVERY_IDS = 100
+
+/**
+ * Maximum number of records replayed by ID per call
+ */
+export const MAX_REPLAY_RECORD_IDS = 100
+
+export type ReplayOptions = {
+  /**
+   * Better Auth model to replay, required together with `recordIds`
+   */
+  model?: string
+
+  /**
+   * IDs of the records to replay, at most 100
+   */
+  recordIds?: string[]
+
+  /**
+   * IDs of logged delivery attempts to replay, at most 100
+   */
+  deliveryIds?: string[]
+
+  /**
+   * Replay records of deliveries logged in this time window
+   */
+  since?: Date
+  until?: Date
+
+  /**
+   * Only replay records of deliveries with this status, e.g. "failed"
+   */
+  status?: DeliveryLogEntry["status"]
+
+  /**
+   * Maximum number of logged deliveries considered
+   * Defaults to 100
+   */
+  limit?: number
+}
+
+export type ReplayResult = {
+  // records sent again with their current state
+  replayed: number
+
+  // failed deliveries of records that no longer exist, queued for another attempt
+  requeued: number
+
+  // records that could be neither replayed nor requeued
+  missing: {model: string; recordId: string}[]
+}
+
+/**
+ * Select the records to replay, either given explicitly or from the delivery log
+ */
+const getReplayTargets = async (
+  ctx: AuthContext,
+  {model, recordIds, deliveryIds, since, until, status, limit = 100}: ReplayOptions
+) => {
+  if (recordIds) {
+    return model ? recordIds.map((recordId) => ({model, recordId})) : []
+  }
+
+  const deliveries = deliveryIds
+    ? await ctx.adapter.findMany<DeliveryLogEntry>({
+        model: "attioDelivery",
+        where: [{field: "id", operator: "in", value: deliveryIds}],
+        limit: deliveryIds.length,
+      })
+    : (await listDeliveries(ctx, {model, status, since, until, limit})).deliveries
+
+  const targets = new Map<string, {model: string; recordId: string}>()
+  for (const delivery of deliveries) {
+    if (delivery.recordId) {
+      targets.set(`${delivery.model}:${delivery.recordId}`, {
+        model: delivery.model,
+        recordId: delivery.recordId,
+      })
+    }
+  }
+  return [...targets.values()]
+}
+
+/**
+ * Send records to Attio again, without touching them in the database
+ *
+ * Existing records are sent with their current state and their failed deliveries are dropped, as
+ * the new delivery supersedes them. Failed deliveries of records that were deleted in the meantime
+ * are queued for another attempt instead.
+ */
+export const replayDeliveries = async (
+  ctx: AuthContext,
+  opts: AttioPluginOptions,
+  options: ReplayOptions
+): Promise<ReplayResult> => {
+  const result: ReplayResult = {replayed: 0, requeued: 0, missing: []}
+
+  const targets = await Promise.all(
+    (await getReplayTargets(ctx, options)).map(async (target) => {
+      const adapter = getAdapterByModel(opts.adapters ?? [], target.model)
+      const record = adapter
+        ? await ctx.adapter.findOne<Record<string, unknown>>({
+            model: adapter.betterAuthModel,
+            where: [{field: "id", value: target.recordId}],
+          })
+        : null
+      const failedWhere = [
+        {field: "model", value: target.model},
+        {field: "recordId", value: target.recordId},
+        {field: "status", value: "failed"},
+      ]
+      return {target, adapter, record, failedWhere}
+    })
+  )
+
+  const existing = targets.flatMap(({adapter, record, failedWhere}) =>
+    adapter && record ? [{adapter, record, failedWhere}] : []
+  )
+
+  await Promise.all(
+    existing.map(({failedWhere}) =>
+      ctx.adapter.deleteMany({model: "attioOutbox", where: failedWhere})
+    )
+  )
+
+  // queued in the same tick, so all records are delivered together in one batch
+  await Promise.all(
+    existing.map(({adapter, record}) =>
+      sendWebhookEvent(record.attioId ? "update" : "create", record, adapter, ctx, opts, {
+        force: true,
+      })
+    )
+  )
+  result.replayed = existing.length
+
+  for (const {target, adapter, record, failedWhere} of targets) {
+    if (adapter && record) continue
+
+    const requeued = await ctx.adapter.updateMany({
+      model: "attioOutbox",
+      where: failedWhere,
+      update: {status: "pending", attempts: 0, nextAttemptAt: new Date()},
+    })
+
+    if (requeued) {
+      result.requeued += requeued
+    } else {
+      result.missing.push(target)
+    }
+  }
+
+  if (result.requeued) {
+    await drainOutbox(ctx, opts)
+  }
+
+  return result
+}
@@ -0,0 +1,65 @@
+import {sha256} from "../utils/signature.js"
+import type {AnyModelAdapter, AttioSchema, SchemaMigration} from "./types.js"
+import {stableStringify} from "./utils.js"
+
+/**
+ * Adapter description used by the Attio app to provision objects and attributes
+ */
+export type AdapterSchema = {
+  betterAuthModel: string
+  attioObject: string
+  idField: string
+  attioSchema: AttioSchema
+  schemaVersion: number
+  migrations: SchemaMigration[]
+  schemaHash: string
+}
+
+const schemaHashes = new WeakMap<AnyModelAdapter, Promise<string>>()
+
+/**
+ * Digest of everything the Attio app provisions for an adapter
+ * Changes whenever the object, ID field, an attribute definition or the schema version changes
+ */
+export const getSchemaHash = (adapter: AnyModelAdapter) => {
+  let hash = schemaHashes.get(adapter)
+  if (!hash) {
+    hash = sha256(
+      stableStringify({
+        attioObject: adapter.attioObject,
+        idField: adapter.idField,
+        attioSchema: adapter.attioSchema,
+        schemaVersion: adapter.schemaVersion ?? 1,
+        migrations: adapter.migrations ?? [],
+      })
+    )
+    schemaHashes.set(adapter, hash)
+  }
+  return hash
+}
+
+export const getAdapterSchema = async (adapter: AnyModelAdapter): Promise<AdapterSchema> => ({
+  betterAuthModel: adapter.betterAuthModel,
+  attioObject: adapter.attioObject,
+  idField: adapter.idField,
+  attioSchema: adapter.attioSchema,
+  schemaVersion: adapter.schemaVersion ?? 1,
+  migrations: adapter.migrations ?? [],
+  schemaHash: await getSchemaHash(adapter),
+})
+
+/**
+ * Attributes that need to be resent after migrating from `fromVersion` to the current version
+ */
+export const getMigratedAttributes = (adapter: AnyModelAdapter, fromVersion: number) => {
+  const attributes = new Set<string>()
+  for (const migration of adapter.migrations ?? []) {
+    if (migration.version <= fromVersion || !migration.backfill) continue
+    if (migration.type === "rename") {
+      attributes.add(migration.to)
+    } else if (migration.type === "change-type") {
+      attributes.add(migration.attribute)
+    }
+  }
+  return [...attributes]
+}
@@ -1,58 +1,250 @@
 import type {AuthContext} from "better-auth"
 import type {AttioPluginOptions} from "../index.js"
-import type {ModelAdapter, SyncEvent} from "./types.js"
+import {encodeAttioValues} from "./codec.js"
+import type {SyncOrigin} from "./origin.js"
+import {
+  type AttioIntegration,
+  attemptDeliveries,
+  drainOutbox,
+  enqueueDelivery,
+  type OutboxEntry,
+  resolveOptions,
+} from "./outbox.js"
+import {applyOutboundOwnership} from "./ownership.js"
+import {applyRedaction, getRedactionRules} from "./redaction.js"
+import {getSchemaHash} from "./schema.js"
+import {shouldSyncRecord} from "./should-sync.js"
+import {clearSyncState, getPayloadHash, updateSyncState} from "./sync-state.js"
+import type {AnyModelAdapter, AttioValues, SyncEvent} from "./types.js"
 
-export const sendWebhookEvent = async (
+export type SendEventOptions = {
+  /**
+   * Where the change originated, sent along so Attio can tell its own changes apart
+   * Defaults to "app"
+   */
+  origin?: SyncOrigin
+
+  /**
+   * Send the event even if the payload didn't change since the last sync
+   */
+  force?: boolean
+
+  /**
+   * Only send these Attio attributes, e.g. to resend attributes affected by a schema migration
+   */
+  attributes?: string[]
+}
+
+/**
+ * Transform a record to the payload sent to Attio
+ * Returns null if the adapter chose not to sync the event
+ */
+export const buildAttioPayload = async (
   event: SyncEvent,
   data: Record<string, unknown>,
-  modelAdapter: ModelAdapter,
-  ctx: AuthContext,
+  modelAdapter: AnyModelAdapter,
+  ctx: AuthContext
+): Promise<AttioValues | null> => {
+  const transformed = await modelAdapter.toAttio(event, data, ctx)
+  if (!transformed) {
+    return null
+  }
+
+  // encode values to Attio's format, leaving attributes owned by Attio untouched
+  return applyOutboundOwnership(
+    modelAdapter,
+    event,
+    encodeAttioValues(transformed, modelAdapter.attioSchema)
+  )
+}
+
+type QueuedEvent = {
+  event: SyncEvent
+  data: Record<string, unknown>
+  modelAdapter: AnyModelAdapter
+  ctx: AuthContext
   opts: AttioPluginOptions
+  options: SendEventOptions
+}
+
+type EventBatch = {
+  events: Map<string, QueuedEvent>
+  promise: Promise<void>
+}
+
+// events queued in the current tick, per database
+const batches = new WeakMap<object, EventBatch>()
+let anonymousEvents = 0
+
+/**
+ * Collapse a queued event with a later one for the same record
+ * The latest data wins, a record created in this tick is still sent as created
+ */
+const mergeEvents = (previous: QueuedEvent | undefined, next: QueuedEvent): QueuedEvent => {
+  if (!previous) return next
+  return {
+    ...next,
+    event: previous.event === "create" && next.event === "update" ? "create" : next.event,
+    options: {
+      ...next.options,
+      force: previous.options.force || next.options.force,
+      attributes:
+        previous.options.attributes && next.options.attributes
+          ? [...new Set([...previous.options.attributes, ...next.options.attributes])]
+          : undefined,
+    },
+  }
+}
+
+/**
+ * Transform a queued event and persist a delivery for every integration
+ */
+const enqueueEvent = async (
+  {event, data, modelAdapter, ctx, opts, options}: QueuedEvent,
+  webhooks: AttioIntegration[]
 ) => {
-  try {
-    const attioData = await modelAdapter.toAttio(event, data, ctx)
-    if (!attioData) {
-      return // Adapter chose not to sync this event
+  const {origin = "app", force = false, attributes} = options
+
+  if (!(await shouldSyncRecord(event, data, "outbound", modelAdapter, ctx, opts))) {
+    return []
+  }
+
+  let attioData = await buildAttioPayload(event, data, modelAdapter, ctx)
+  if (!attioData) {
+    return [] // Adapter chose not to sync this event
+  }
+
+  if (attributes) {
+    // keep the identifiers, Attio needs them to match the record
+    const keep = new Set([...attributes, "record_id", "_deleted", modelAdapter.idField])
+    attioData = Object.fromEntries(Object.entries(attioData).filter(([key]) => keep.has(key)))
+  }
+
+  // partial payloads don't represent the record's state
+  const recordId = typeof data.id === "string" && !attributes ? data.id : null
+  if (recordId) {
+    if (event === "delete") {
+      await clearSyncState(ctx, modelAdapter.betterAuthModel, recordId)
+    } else if (modelAdapter.skipUnchanged !== false) {
+      const hash = await getPayloadHash(attioData)
+      const changed = await updateSyncState(ctx, modelAdapter.betterAuthModel, recordId, hash)
+      if (!changed && !force) {
+        return [] // Nothing changed since the last sync
+      }
     }
+  }
 
-    const webhooks = await ctx.adapter.findMany({
-      model: "attioIntegration",
+  const timestamp = new Date().toISOString()
+  const schemaHash = await getSchemaHash(modelAdapter)
+
+  // persist every delivery first, so failed ones can be retried later
+  return Promise.all(
+    webhooks.map(async (webhook) => {
+      // redact per integration, so adapters can't bypass the policy
+      const rules = getRedactionRules(opts.redaction, modelAdapter, webhook)
+      const payload = JSON.stringify({
+        event,
+        origin,
+        data: await applyRedaction(attioData, modelAdapter, rules),
+        timestamp,
+        // the full schema is available from `/attio/schema`
+        adapter: {
+          betterAuthModel: modelAdapter.betterAuthModel,
+          attioObject: modelAdapter.attioObject,
+          schemaHash,
+        },
+      })
+
+      return enqueueDelivery(
+        ctx,
+        webhook,
+        {
+          model: modelAdapter.betterAuthModel,
+          event,
+          recordId: typeof data.id === "string" ? data.id : null,
+        },
+        payload
+      )
     })
+  )
+}
+
+/**
+ * Send all events of a batch, with a single delivery per integration and `outbox.batchSize` events
+ */
+const flushEvents = async (
+  ctx: AuthContext,
+  opts: AttioPluginOptions,
+  events: Map<string, QueuedEvent>
+) => {
+  const webhooks = await ctx.adapter.findMany<AttioIntegration>({
+    model: "attioIntegration",
+  })
+
+  const entries: OutboxEntry[] = []
+  for (const queued of events.values()) {
+    try {
+      entries.push(...(await enqueueEvent(queued, webhooks)))
+    } catch (error) {
+      console.error("Error sending webhooks:", error)
+    }
+  }
 
-    const promises = webhooks.map(async (webhook: any) => {
-      try {
-        // TODO: might have to replace w/ better-fetch
-        const response = await fetch(webhook.webhookUrl, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            event,
-            data: attioData,
-            timestamp: new Date().toISOString(),
-            adapter: {
-              betterAuthModel: modelAdapter.betterAuthModel,
-              attioObject: modelAdapter.attioObject,
-              attioSchema: modelAdapter.attioSchema,
-            },
-          }),
-        })
-
-        if (!response.ok) {
-          console.error(`Webhook delivery failed: ${response.status}`)
-        }
-      } catch (error) {
-        console.error("Failed to deliver webhook to Attio:", error)
+  const {batchSize} = resolveOptions(opts)
+  await Promise.all(
+    webhooks.map(async (webhook) => {
+      const webhookEntries = entries.filter((entry) => entry.integrationId === webhook.id)
+      // larger batches are split, so request bodies stay bounded
+      for (let i = 0; i < webhookEntries.length; i += batchSize) {
+        await attemptDeliveries(ctx, opts, webhookEntries.slice(i, i + batchSize), webhook)
       }
     })
+  )
 
-    if (opts.waitUntil) {
-      opts.waitUntil(Promise.all(promises))
-    } else {
-      await Promise.all(promises)
-    }
-  } catch (error) {
-    console.error("Error sending webhooks:", error)
+  // piggyback on this batch to retry deliveries that are due, but only in the background,
+  // retries of other records must not hold up the write that triggered the batch
+  if (opts.waitUntil) {
+    await drainOutbox(ctx, opts)
   }
 }
+
+/**
+ * Queue an event for Attio
+ *
+ * Events are collected until the next tick, repeated events for the same record are collapsed
+ * into one and sent together in a single delivery per integration. The returned promise resolves
+ * once the batch was delivered, or right away if `waitUntil` is configured.
+ */
+export const sendWebhookEvent = (
+  event: SyncEvent,
+  data: Record<string, unknown>,
+  modelAdapter: AnyModelAdapter,
+  ctx: AuthContext,
+  opts: AttioPluginOptions,
+  options: SendEventOptions = {}
+): Promise<void> => {
+  let batch = batches.get(ctx.adapter)
+  if (!batch) {
+    const events = new Map<string, QueuedEvent>()
+    const promise = new Promise((resolve) => setTimeout(resolve, 0))
+      .then(() => {
+        // later events start a new batch
+        batches.delete(ctx.adapter)
+        return flushEvents(ctx, opts, events)
+      })
+      .catch((error) => {
+        console.error("Error delivering webhooks:", error)
+      })
+
+    batch = {events, promise}
+    batches.set(ctx.adapter, batch)
+    opts.waitUntil?.(promise)
+  }
+
+  const recordId = data.id ?? data.attioId
+  const key = `${modelAdapter.betterAuthModel}:${recordId ?? `anonymous-${anonymousEvents++}`}`
+  const queued = {event, data, modelAdapter, ctx, opts, options}
+  batch.events.set(key, mergeEvents(batch.events.get(key), queued))
+
+  return opts.waitUntil ? Promise.resolve() : batch.promise
+}
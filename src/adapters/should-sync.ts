@@ -0,0 +1,28 @@
+import type {AuthContext} from "better-auth"
+import type {AttioPluginOptions} from "../index.js"
+import type {AnyModelAdapter, SyncDirection, SyncEvent} from "./types.js"
+
+/**
+ * Check the global and the adapter's sync predicate, skipped records are logged
+ */
+export const shouldSyncRecord = async (
+  event: SyncEvent,
+  values: Record<string, unknown>,
+  direction: SyncDirection,
+  adapter: AnyModelAdapter,
+  ctx: AuthContext,
+  opts: AttioPluginOptions
+) => {
+  const allowed =
+    (!opts.shouldSync || (await opts.shouldSync(event, values, direction, adapter))) &&
+    (!adapter.shouldSync || (await adapter.shouldSync(event, values, direction)))
+
+  if (!allowed) {
+    const id = direction === "outbound" ? values.id : values.record_id
+    ctx.logger.info(
+      `[attio] Skipped ${direction} ${event} of ${adapter.betterAuthModel} ${id ?? ""}`.trim()
+    )
+  }
+
+  return allowed
+}
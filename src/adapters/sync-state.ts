@@ -0,0 +1,82 @@
+import type {AuthContext} from "better-auth"
+import {sha256} from "../utils/signature.js"
+import type {AttioValues} from "./types.js"
+import {stableStringify} from "./utils.js"
+
+type SyncState = {
+  id: string
+  model: string
+  recordId: string
+  hash: string
+  updatedAt: Date
+}
+
+/**
+ * Digest of an outbound payload, independent of key order
+ */
+export const getPayloadHash = (data: AttioValues) => sha256(stableStringify(data))
+
+/**
+ * Store the digest of the last payload sent for a record
+ * Returns false if the payload didn't change since the last sync
+ */
+export const updateSyncState = async (
+  ctx: AuthContext,
+  model: string,
+  recordId: string,
+  hash: string
+) => {
+  const state = await ctx.adapter.findOne<SyncState>({
+    model: "attioSyncState",
+    where: [
+      {field: "model", value: model},
+      {field: "recordId", value: recordId},
+    ],
+  })
+
+  if (state?.hash === hash) {
+    return false
+  }
+
+  if (state) {
+    await ctx.adapter.update({
+      model: "attioSyncState",
+      where: [{field: "id", value: state.id}],
+      update: {hash, updatedAt: new Date()},
+    })
+  } else {
+    await ctx.adapter.create({
+      model: "attioSyncState",
+      data: {model, recordId, hash, updatedAt: new Date()},
+    })
+  }
+
+  return true
+}
+
+/**
+ * When a changed payload was last sent for a record, null if it was never synced
+ */
+export const getLastSyncedAt = async (ctx: AuthContext, model: string, recordId: string) => {
+  const state = await ctx.adapter.findOne<SyncState>({
+    model: "attioSyncState",
+    where: [
+      {field: "model", value: model},
+      {field: "recordId", value: recordId},
+    ],
+  })
+  return state ? new Date(state.updatedAt) : null
+}
+
+/**
+ * Forget the last synced payload for a record, e.g. after it was deleted
+ */
+export const clearSyncState = async (ctx: AuthContext, model: string, recordId: string) => {
+  await ctx.adapter.deleteMany({
+    model: "attioSyncState",
+    where: [
+      {field: "model", value: model},
+      {field: "recordId", value: recordId},
+    ],
+  })
+}
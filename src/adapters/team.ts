@@ -0,0 +1,200 @@
+import type {AuthContext} from "better-auth"
+import type {Team, TeamMember} from "better-auth/plugins"
+import {defineAdapter} from "./define.js"
+import type {AdapterFields} from "./types.js"
+import type {UserModel} from "./user.js"
+import {chunk, findAllPaged, findAttioId, findLocalId, findManyIn} from "./utils.js"
+
+export type TeamModel = Team & {attioId?: string | null}
+
+// team members read per page and users looked up per `in` query
+const BATCH_SIZE = 100
+
+const findTeamMembers = (ctx: AuthContext, teamId: string) =>
+  findAllPaged<TeamMember>(ctx, {
+    model: "teamMember",
+    where: [{field: "teamId", value: teamId}],
+    sortBy: {field: "id", direction: "asc"},
+    batchSize: BATCH_SIZE,
+  })
+
+const fields = {
+  id: {
+    attribute: "team_id",
+    type: "text",
+    title: "Team ID",
+    description: "Better Auth team ID",
+    is_unique: true,
+    is_required: true,
+    fromAttio: false,
+  },
+  name: {
+    attribute: "name",
+    type: "text",
+    title: "Name",
+    description: "Team name",
+    is_required: true,
+  },
+  organizationId: {
+    attribute: "workspace",
+    type: "record-reference",
+    title: "Workspace",
+    description: "Organization the team belongs to",
+    is_required: true,
+    config: {
+      allowed_objects: ["workspaces"],
+    },
+    toAttio: (value, _, ctx) => findAttioId(ctx, "organization", value),
+    fromAttio: (value, _, ctx) => findLocalId(ctx, "organization", value),
+  },
+  members: {
+    attribute: "users",
+    type: "record-reference",
+    title: "Users",
+    description: "Users who are members of this team",
+    is_multiselect: true,
+    config: {
+      allowed_objects: ["users"],
+    },
+    // members are synced by the fromAttio hook below
+    fromAttio: false,
+    toAttio: async (_, values, ctx) => {
+      const teamMembers = await findTeamMembers(ctx, values.id)
+      const users = await findManyIn<UserModel>(
+        ctx,
+        "user",
+        "id",
+        teamMembers.map((m) => m.userId),
+        BATCH_SIZE
+      )
+
+      return users.flatMap((user) => (user.attioId ? [user.attioId] : []))
+    },
+  },
+} as const satisfies AdapterFields<TeamModel>
+
+/**
+ * Syncs teams of the organization plugin to a "teams" object, linked to their workspace
+ * Not registered by default, add it to `adapters` to use it
+ */
+export const teamAdapter = defineAdapter<TeamModel, typeof fields>({
+  betterAuthModel: "team",
+  attioObject: "teams",
+  idField: "team_id",
+
+  relatedModels: {
+    teamMember: (values) => values.teamId as string | null,
+  },
+  fields,
+
+  hooks: {
+    fromAttio: async (event, values, ctx, mapped) => {
+      const existing = await ctx.adapter.findOne<TeamModel>({
+        model: "team",
+        where: [{field: "attioId", value: values.record_id as string}],
+      })
+
+      if (event === "delete") {
+        if (existing) {
+          // delete all team members first
+          await ctx.adapter.deleteMany({
+            model: "teamMember",
+            where: [{field: "teamId", value: existing.id}],
+          })
+
+          // then delete the team
+          await ctx.adapter.delete({
+            model: "team",
+            where: [{field: "id", value: existing.id}],
+          })
+        }
+
+        return null // skip default flow
+      }
+
+      // team data, timestamps are set below
+      const {createdAt: _, updatedAt: __, ...teamData} = mapped
+
+      let teamId: string
+
+      if (existing) {
+        teamId = existing.id
+
+        await ctx.adapter.update({
+          model: "team",
+          where: [{field: "id", value: teamId}],
+          update: {
+            ...teamData,
+            updatedAt: new Date(),
+          },
+        })
+      } else {
+        // teams can't exist without their organization
+        if (!teamData.organizationId) return null
+
+        const created = await ctx.adapter.create({
+          model: "team",
+          data: {
+            ...teamData,
+            name: teamData.name || "Unnamed Team",
+            createdAt: new Date(),
+            updatedAt: new Date(),
+          },
+        })
+        teamId = created.id
+      }
+
+      // the users attribute wasn't sent, e.g. because it's owned by the app
+      if (values.users === undefined) {
+        return {id: teamId, attioId: values.record_id}
+      }
+
+      // sync team members based on user references from Attio
+      const currentMembers = await findTeamMembers(ctx, teamId)
+      const users = await findManyIn<UserModel>(
+        ctx,
+        "user",
+        "attioId",
+        values.users ?? [],
+        BATCH_SIZE
+      )
+
+      // users that don't exist locally are skipped
+      const currentUserIds = new Set(currentMembers.map((m) => m.userId))
+      const newUserIds = new Set(users.map((u) => u.id))
+
+      // remove team members no longer in Attio
+      const removedIds = currentMembers.filter((m) => !newUserIds.has(m.userId)).map((m) => m.id)
+
+      for (const batch of chunk(removedIds, BATCH_SIZE)) {
+        await ctx.adapter.deleteMany({
+          model: "teamMember",
+          where: [{field: "id", operator: "in", value: batch}],
+        })
+      }
+
+      // add new team members
+      const addedUserIds = [...newUserIds].filter((userId) => !currentUserIds.has(userId))
+
+      for (const batch of chunk(addedUserIds, BATCH_SIZE)) {
+        await Promise.all(
+          batch.map((userId) =>
+            ctx.adapter.create({
+              model: "teamMember",
+              data: {
+                teamId,
+                userId,
+                createdAt: new Date(),
+              },
+            })
+          )
+        )
+      }
+
+      return {id: teamId, attioId: values.record_id}
+    },
+  },
+
+  onMissing: "create",
+  syncDeletions: true,
+})
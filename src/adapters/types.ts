@@ -32,54 +32,286 @@ export type AttioFieldSchema = {
   is_multiselect?: boolean
   config?: {
     // For record-reference type
-    allowed_objects?: string[]
+    allowed_objects?: readonly string[]
     // For currency type
     default_currency_code?: string
     display_type?: "code" | "name" | "narrowSymbol" | "symbol"
   }
 }
 
+/**
+ * Attio schema, attribute slugs mapped to their definition
+ */
+export type AttioSchema = Record<string, AttioFieldSchema>
+
+/**
+ * Location value as returned and accepted by Attio
+ */
+export type AttioLocation = {
+  line_1?: string | null
+  line_2?: string | null
+  line_3?: string | null
+  line_4?: string | null
+  locality?: string | null
+  region?: string | null
+  postcode?: string | null
+  country_code?: string | null
+  latitude?: string | null
+  longitude?: string | null
+}
+
+/**
+ * Plain value types per attribute type, as decoded by `decodeAttioValue`
+ */
+export type AttioValueTypes = {
+  text: string
+  number: number
+  checkbox: boolean
+  currency: number
+  date: string
+  timestamp: Date
+  rating: number
+  status: string
+  select: string
+  "record-reference": string
+  "actor-reference": string
+  location: AttioLocation
+  domain: string
+  "email-address": string
+  "phone-number": string
+}
+
+/**
+ * Decoded value of a single attribute, an array for multiselect attributes
+ */
+export type InferAttioValue<TField extends AttioFieldSchema> = TField extends {
+  is_multiselect: true
+}
+  ? AttioValueTypes[TField["type"]][]
+  : AttioValueTypes[TField["type"]] | null
+
+/**
+ * Decoded values of an Attio record, as passed to `fromAttio`
+ */
+export type InferAttioValues<TSchema extends AttioSchema> = (string extends keyof TSchema
+  ? Record<string, unknown>
+  : {[K in keyof TSchema]?: InferAttioValue<TSchema[K]>}) & {
+  record_id?: string // Attio record ID
+}
+
 /**
  * Attio values that can be sent to/from Attio
  */
-export type AttioValues = Record<string, unknown> & {
+export type AttioValues<TSchema extends AttioSchema = AttioSchema> = {
+  [K in keyof TSchema]?: unknown
+} & {
   _deleted?: boolean // Special flag for deletions
   record_id?: string // Attio record ID
 }
 
 export type SyncEvent = "create" | "update" | "delete"
 
+/**
+ * Direction of a sync, "outbound" from Better Auth to Attio and "inbound" from Attio to Better Auth
+ */
+export type SyncDirection = "outbound" | "inbound"
+
+/**
+ * Decide whether a record is synced, e.g. to exclude internal or test accounts
+ * Receives the Better Auth record for outbound events and the decoded Attio values for inbound ones
+ */
+export type SyncPredicate = (
+  event: SyncEvent,
+  values: Record<string, unknown>,
+  direction: SyncDirection
+) => boolean | Promise<boolean>
+
+/**
+ * Which system is the source of truth for an attribute
+ * - "app": only changes made in Better Auth are synced, changes from Attio are ignored
+ * - "attio": only changes made in Attio are synced, the value is only sent when creating the record
+ * - "last-write-wins": changes from Attio are applied unless the local record was updated more recently
+ */
+export type FieldOwnership = "app" | "attio" | "last-write-wins"
+
+/**
+ * Change to an adapter's Attio schema, applied by the Attio app when it reaches `version`
+ * - "rename": an attribute slug was renamed, existing values are kept
+ * - "change-type": an attribute changed its type, e.g. from "text" to "number"
+ * - "archive": an attribute is no longer synced and should be archived
+ * Set `backfill` to resend the affected attributes of all records after the migration
+ */
+export type SchemaMigration = {
+  version: number
+  backfill?: boolean
+} & (
+  | {type: "rename"; from: string; to: string}
+  | {type: "change-type"; attribute: string; from?: AttioAttributeType; to: AttioAttributeType}
+  | {type: "archive"; attribute: string}
+)
+
+/**
+ * Record event received from Attio
+ */
+export type AttioRecordEvent = {
+  event_type?: string
+  id?: {event_id?: string}
+  object?: {api_slug: string}
+  record?: {
+    id: {record_id: string}
+    values: Record<string, unknown>
+  }
+}
+
 /**
  * Model adapter interface for bidirectional sync
+ * Generic over the Better Auth model and the Attio schema, so attribute slugs are type checked
  */
-export interface ModelAdapter {
+export interface ModelAdapter<
+  TModel extends Record<string, unknown> = Record<string, unknown>,
+  TSchema extends AttioSchema = AttioSchema,
+> {
   // Model identifiers
   betterAuthModel: string // e.g., "user", "organization"
   attioObject: string // e.g., "users", "workspaces"
-  idField: string // Field in Attio containing Better Auth ID (e.g., "user_id", "workspace_id")
+  idField: keyof TSchema & string // Field in Attio containing Better Auth ID (e.g., "user_id", "workspace_id")
 
   // Define which related models should trigger this adapter
   // e.g., { member: (values) => values.organizationId }
   relatedModels?: Record<string, (values: Record<string, unknown>) => string | null>
 
   // Transform Better Auth data to Attio format
-  toAttio: (
+  // Declared as methods, so adapters of specific models are assignable to `AnyModelAdapter`
+  toAttio(
     event: SyncEvent,
-    values: Record<string, unknown>,
+    values: TModel,
     context: AuthContext
-  ) => Promise<AttioValues | null>
+  ): Promise<AttioValues<TSchema> | null>
 
   // Transform Attio data to Better Auth format
-  fromAttio: (
+  fromAttio(
     event: SyncEvent,
-    values: Record<string, unknown>,
+    values: InferAttioValues<TSchema>,
     context: AuthContext
-  ) => Promise<Record<string, unknown> | null>
+  ): Promise<Partial<TModel> | null>
 
   // Attio schema definition for auto-creation
-  attioSchema: Record<string, AttioFieldSchema>
+  attioSchema: TSchema
+
+  // Version of the Attio schema, increase it together with a migration (defaults to 1)
+  schemaVersion?: number
+
+  // Changes to the Attio schema since the first version
+  // e.g. [{ version: 2, type: "rename", from: "tier", to: "subscription_tier" }]
+  migrations?: SchemaMigration[]
+
+  // Source of truth per Attio attribute, attributes without an entry sync both ways
+  // e.g. { name: "app" }
+  fieldOwnership?: {[K in keyof TSchema]?: FieldOwnership}
+
+  // Attributes whose value is derived from other attributes, they're dropped whenever one of
+  // their sources is redacted
+  // e.g. { person: ["primary_email_address"] }
+  derivedAttributes?: {[K in keyof TSchema]?: (keyof TSchema & string)[]}
 
   // Sync behavior configuration
   onMissing?: "create" | "delete" | "ignore"
   syncDeletions?: boolean
+
+  // Return false to skip a record in either direction
+  // e.g. (event, values, direction) => !String(values.email).endsWith("@example.com")
+  shouldSync?: SyncPredicate
+
+  // Skip outbound events whose payload didn't change since the last sync (defaults to true)
+  skipUnchanged?: boolean
+}
+
+/**
+ * Model adapter of any model and schema, e.g. for lists of adapters
+ */
+export type AnyModelAdapter = ModelAdapter<Record<string, unknown>, AttioSchema>
+
+/**
+ * Mapping of a single Better Auth field to an Attio attribute
+ */
+export type AdapterField<TModel extends Record<string, unknown> = Record<string, unknown>> =
+  AttioFieldSchema & {
+    // Attio attribute slug, e.g. "primary_email_address"
+    attribute: string
+
+    // Transform the Better Auth value before it's sent, receives the whole record
+    // Return undefined to leave the attribute out of the payload
+    toAttio?: (value: unknown, values: TModel, context: AuthContext) => unknown | Promise<unknown>
+
+    // Attio attributes the value is derived from, e.g. a person reference matched by email
+    // The attribute is dropped whenever one of them is redacted
+    derivedFrom?: string[]
+
+    // Transform the Attio value before it's written, or false to never write this field from Attio
+    fromAttio?:
+      | ((
+          value: unknown,
+          values: Record<string, unknown>,
+          context: AuthContext
+        ) => unknown | Promise<unknown>)
+      | false
+  }
+
+/**
+ * Better Auth field names mapped to Attio attributes
+ */
+export type AdapterFields<TModel extends Record<string, unknown> = Record<string, unknown>> =
+  Record<string, AdapterField<TModel>>
+
+/**
+ * Attio schema derived from a field map
+ */
+export type InferFieldsSchema<TFields extends AdapterFields<never>> = {
+  [K in keyof TFields as TFields[K]["attribute"]]: Omit<
+    TFields[K],
+    "attribute" | "toAttio" | "fromAttio" | "derivedFrom"
+  >
+}
+
+/**
+ * Declarative adapter definition, see `defineAdapter`
+ */
+export type AdapterDefinition<
+  TModel extends Record<string, unknown> = Record<string, unknown>,
+  TFields extends AdapterFields<TModel> = AdapterFields<TModel>,
+  TResult extends AttioValues<InferFieldsSchema<TFields>> = AttioValues<InferFieldsSchema<TFields>>,
+> = Omit<
+  ModelAdapter<TModel, InferFieldsSchema<TFields>>,
+  "toAttio" | "fromAttio" | "attioSchema"
+> & {
+  // Better Auth field names mapped to Attio attributes
+  // Keys without a matching Better Auth field can be used for computed attributes
+  fields: TFields
+
+  // Custom hooks for cases the field map can't express
+  // They receive the mapped values and return the final result
+  hooks?: {
+    toAttio?: (
+      event: SyncEvent,
+      values: TModel,
+      context: AuthContext,
+      mapped: AttioValues<InferFieldsSchema<TFields>>
+    ) => Promise<TResult | null>
+    fromAttio?: (
+      event: SyncEvent,
+      values: InferAttioValues<InferFieldsSchema<TFields>>,
+      context: AuthContext,
+      mapped: Partial<TModel>
+    ) => Promise<Partial<TModel> | null>
+  }
+}
+
+/**
+ * Model adapter created with `defineAdapter`, keeps its definition around for `extendAdapter`
+ */
+export type DefinedAdapter<
+  TModel extends Record<string, unknown> = Record<string, unknown>,
+  TFields extends AdapterFields<TModel> = AdapterFields<TModel>,
+> = ModelAdapter<TModel, InferFieldsSchema<TFields>> & {
+  definition: AdapterDefinition<TModel, TFields>
 }
@@ -1,79 +1,71 @@
-import type {ModelAdapter} from "./types.js"
+import type {User} from "better-auth"
+import {defineAdapter} from "./define.js"
+import type {AdapterFields} from "./types.js"
+import {getCompanyDomain, getCompanyReference, getPersonReference} from "./utils.js"
 
-export const userAdapter: ModelAdapter = {
-  betterAuthModel: "user",
-  attioObject: "users",
-  idField: "user_id",
+export type UserModel = User & {attioId?: string | null}
 
-  toAttio: async (event, values, _ctx) => {
-    if (event === "delete") {
-      return {_deleted: true, user_id: values.id}
-    }
-
-    return {
-      record_id: values.attioId as string,
-      user_id: values.id,
-      primary_email_address: values.email,
-      name: values.name,
-      email_verified: values.emailVerified,
-    }
+const fields = {
+  id: {
+    attribute: "user_id",
+    type: "text",
+    title: "User ID",
+    description: "Better Auth user ID",
+    is_unique: true,
+    is_required: true,
+    fromAttio: false,
   },
-
-  fromAttio: async (event, values, ctx) => {
-    if (event === "delete") {
-      // return minimal data needed for deletion
-      return {id: values.user_id}
-    }
-
-    const base: Record<string, unknown> = {
-      attioId: values.record_id,
-    }
-
-    // only include non-null values
-    if (values.primary_email_address !== null) base.email = values.primary_email_address
-    if (values.name !== null) base.name = values.name
-    if (values.email_verified !== null) base.emailVerified = values.email_verified
-
-    if (event === "create") {
-      // add creation-specific fields
-      return {
-        ...base,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      }
-    }
-
-    // for updates, return only the changed fields
-    return base
+  email: {
+    attribute: "primary_email_address",
+    type: "email-address",
+    title: "Primary Email",
+    description: "User's primary email address",
+    is_unique: true,
+    is_required: true,
   },
-
-  attioSchema: {
-    user_id: {
-      type: "text",
-      title: "User ID",
-      description: "Better Auth user ID",
-      is_unique: true,
-      is_required: true,
-    },
-    primary_email_address: {
-      type: "email-address",
-      title: "Primary Email",
-      description: "User's primary email address",
-      is_unique: true,
-      is_required: true,
-    },
-    name: {
-      type: "text",
-      title: "Name",
-      description: "User's display name",
+  name: {
+    attribute: "name",
+    type: "text",
+    title: "Name",
+    description: "User's display name",
+  },
+  emailVerified: {
+    attribute: "email_verified",
+    type: "checkbox",
+    title: "Email Verified",
+    description: "Whether the user's email has been verified",
+  },
+  person: {
+    attribute: "person",
+    type: "record-reference",
+    title: "Person",
+    description: "Person in Attio, matched by email address",
+    config: {
+      allowed_objects: ["people"],
     },
-    email_verified: {
-      type: "checkbox",
-      title: "Email Verified",
-      description: "Whether the user's email has been verified",
+    fromAttio: false,
+    toAttio: (_, values) => getPersonReference(values.email),
+    derivedFrom: ["primary_email_address"],
+  },
+  company: {
+    attribute: "company",
+    type: "record-reference",
+    title: "Company",
+    description: "Company in Attio, matched by the domain of the email address",
+    config: {
+      allowed_objects: ["companies"],
     },
+    fromAttio: false,
+    toAttio: (_, values) => getCompanyReference(getCompanyDomain(values.email)),
+    derivedFrom: ["primary_email_address"],
   },
+} as const satisfies AdapterFields<UserModel>
 
+export const userAdapter = defineAdapter<UserModel, typeof fields>({
+  betterAuthModel: "user",
+  attioObject: "users",
+  idField: "user_id",
+  fields,
   onMissing: "create",
   syncDeletions: true,
-}
+})
@@ -1,36 +1,34 @@
+import type {AuthContext, Where} from "better-auth"
+import {decodeAttioValue} from "./codec.js"
+
 /**
  * Extract the actual value from Attio's field format
  * Attio returns values as arrays with history/metadata
+ *
+ * @deprecated use `decodeAttioValue` with the attribute schema to preserve multi-value semantics
  */
 export function extractAttioValue(fieldData: unknown): unknown {
-  if (!Array.isArray(fieldData) || fieldData.length === 0) {
-    return null
-  }
+  return decodeAttioValue(fieldData)
+}
 
-  const extractSingleValue = (item: any) => {
-    if (item.attribute_type === "email-address") {
-      return item.email_address
-    } else if (item.attribute_type === "phone-number") {
-      return item.phone_number || item.original_phone_number
-    } else if (item.attribute_type === "record-reference") {
-      return item.target_record_id
-    } else if (item.attribute_type === "personal-name") {
-      return item.full_name
-    } else if (item.attribute_type === "select") {
-      return item.option.title
-    } else if ("value" in item) {
-      return item.value
-    } else if ("referenced_actor_id" in item) {
-      return item.referenced_actor_id
-    }
+/**
+ * Get the time the current value of an Attio field was set
+ * Returns null if the field has no active value
+ */
+export function getAttioValueTimestamp(fieldData: unknown): Date | null {
+  if (!Array.isArray(fieldData)) {
     return null
   }
 
-  if (fieldData.length === 1) {
-    return extractSingleValue(fieldData[0])
+  let latest: Date | null = null
+  for (const item of fieldData) {
+    const activeFrom = item?.active_from ? new Date(item.active_from) : null
+    if (activeFrom && !Number.isNaN(activeFrom.getTime()) && (!latest || activeFrom > latest)) {
+      latest = activeFrom
+    }
   }
 
-  return fieldData.map(extractSingleValue)
+  return latest
 }
 
 /**
@@ -66,6 +64,17 @@ export function deepMerge<T extends Record<string, any>>(target: T, source: Part
   return result
 }
 
+/**
+ * Serialize a value to JSON with object keys in sorted order
+ */
+export function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_, item) =>
+    item && typeof item === "object" && !Array.isArray(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)))
+      : item
+  )
+}
+
 /**
  * Generate a slug from a name
  */
@@ -85,3 +94,159 @@ export function generateUniqueSlug(name: string): string {
   const suffix = Math.random().toString(36).substring(2, 8)
   return `${base}-${suffix}`
 }
+
+type LinkedRecord = {id: string; attioId?: string | null}
+
+/**
+ * Resolve a Better Auth ID to the Attio record ID of a linked record
+ */
+export async function findAttioId(
+  ctx: AuthContext,
+  model: string,
+  id: unknown
+): Promise<string | null> {
+  if (typeof id !== "string") return null
+  const record = await ctx.adapter.findOne<LinkedRecord>({
+    model,
+    where: [{field: "id", value: id}],
+  })
+  return record?.attioId ?? null
+}
+
+/**
+ * Resolve an Attio record ID to the Better Auth ID of the linked record
+ */
+export async function findLocalId(
+  ctx: AuthContext,
+  model: string,
+  attioId: unknown
+): Promise<string | undefined> {
+  if (typeof attioId !== "string") return undefined
+  const record = await ctx.adapter.findOne<LinkedRecord>({
+    model,
+    where: [{field: "attioId", value: attioId}],
+  })
+  return record?.id
+}
+
+// email providers whose domain doesn't identify a company
+const FREE_EMAIL_DOMAINS = new Set([
+  "163.com",
+  "aol.com",
+  "fastmail.com",
+  "gmail.com",
+  "gmx.com",
+  "gmx.de",
+  "googlemail.com",
+  "hey.com",
+  "hotmail.com",
+  "icloud.com",
+  "live.com",
+  "mail.com",
+  "me.com",
+  "msn.com",
+  "outlook.com",
+  "proton.me",
+  "protonmail.com",
+  "qq.com",
+  "web.de",
+  "yahoo.com",
+  "yandex.com",
+  "zoho.com",
+])
+
+/**
+ * Get the company domain of an email address, null for free email providers
+ */
+export function getCompanyDomain(email: unknown): string | null {
+  if (typeof email !== "string") return null
+  const domain = email.split("@")[1]?.trim().toLowerCase()
+  if (!domain || FREE_EMAIL_DOMAINS.has(domain)) return null
+  return domain
+}
+
+/**
+ * Reference to a person in Attio, matched by email address
+ */
+export function getPersonReference(email: unknown) {
+  if (typeof email !== "string" || !email) return null
+  return {target_object: "people", email_addresses: [{email_address: email}]}
+}
+
+/**
+ * Reference to a company in Attio, matched by domain
+ */
+export function getCompanyReference(domain: string | null) {
+  if (!domain) return null
+  return {target_object: "companies", domains: [{domain}]}
+}
+
+/**
+ * Split items into chunks of the given size
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
+
+/**
+ * Find all records whose field matches one of the values, with one `in` lookup per batch
+ */
+export async function findManyIn<T>(
+  ctx: AuthContext,
+  model: string,
+  field: string,
+  values: string[],
+  batchSize: number
+): Promise<T[]> {
+  const results: T[] = []
+  for (const batch of chunk([...new Set(values)], batchSize)) {
+    results.push(
+      ...(await ctx.adapter.findMany<T>({
+        model,
+        where: [{field, operator: "in", value: batch}],
+        limit: batch.length,
+      }))
+    )
+  }
+  return results
+}
+
+/**
+ * Find all records matching the where clause, one page at a time
+ * Better Auth caps unlimited `findMany` calls at 100 records, so larger sets have to be paged
+ */
+export async function findAllPaged<T>(
+  ctx: AuthContext,
+  {
+    model,
+    where,
+    sortBy,
+    max = Number.POSITIVE_INFINITY,
+    batchSize = 100,
+  }: {
+    model: string
+    where: Where[]
+    sortBy: {field: string; direction: "asc" | "desc"}
+    max?: number
+    batchSize?: number
+  }
+): Promise<T[]> {
+  const results: T[] = []
+  while (results.length < max) {
+    const limit = Math.min(batchSize, max - results.length)
+    const page = await ctx.adapter.findMany<T>({
+      model,
+      where,
+      sortBy,
+      limit,
+      offset: results.length,
+    })
+    results.push(...page)
+    if (page.length < limit) break
+  }
+  return results
+}
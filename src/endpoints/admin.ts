@@ -25,13 +25,14 @@ export const endpoints = (opts: AttioPluginOptions) => ({
     "/attio/user-details",
     {
       method: "POST",
+      cloneRequest: true,
       body: z.object({
-        secret: z.string(),
+        secret: z.string().optional(),
         userId: z.string(),
       }),
     },
     async (ctx) => {
-      const error = validateSecret(opts, ctx)
+      const error = await validateSecret(opts, ctx)
       if (error) return error
 
       if (!getAdminPlugin(ctx.context)) {
@@ -72,8 +73,9 @@ export const endpoints = (opts: AttioPluginOptions) => ({
     "/attio/update-ban-status",
     {
       method: "POST",
+      cloneRequest: true,
       body: z.object({
-        secret: z.string(),
+        secret: z.string().optional(),
         userId: z.string(),
         banned: z.boolean(),
         banReason: z.string().nullable().optional(),
@@ -81,7 +83,7 @@ export const endpoints = (opts: AttioPluginOptions) => ({
       }),
     },
     async (ctx) => {
-      const error = validateSecret(opts, ctx)
+      const error = await validateSecret(opts, ctx)
       if (error) return error
 
       if (!getAdminPlugin(ctx.context)) {
@@ -111,14 +113,15 @@ export const endpoints = (opts: AttioPluginOptions) => ({
     "/attio/impersonate",
     {
       method: "POST",
+      cloneRequest: true,
       body: z.object({
-        secret: z.string(),
+        secret: z.string().optional(),
         targetUserId: z.string(), // the user to impersonate
         adminEmail: z.string(), // the admin's email from Attio (for tracking who impersonated)
       }),
     },
     async (ctx) => {
-      const error = validateSecret(opts, ctx)
+      const error = await validateSecret(opts, ctx)
       if (error) return error
 
       if (!getAdminPlugin(ctx.context)) {
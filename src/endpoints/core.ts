@@ -2,10 +2,24 @@ import {generateId, type User} from "better-auth"
 import {createAuthEndpoint} from "better-auth/api"
 import type {SessionWithImpersonatedBy} from "better-auth/plugins"
 import z from "zod"
-import {sendWebhookEvent} from "../adapters/send-event.js"
-import type {ModelAdapter, SyncEvent} from "../adapters/types.js"
-import {extractAttioValue} from "../adapters/utils.js"
+import {runBackfill} from "../adapters/backfill.js"
+import {listDeliveries} from "../adapters/delivery-log.js"
+import {getAdapterByModel} from "../adapters/helpers.js"
+import {syncExpiredInvitations} from "../adapters/invitation.js"
+import {type AttioIntegration, drainOutbox} from "../adapters/outbox.js"
+import {receiveWebhookEvent} from "../adapters/receive-event.js"
+import {MAX_RECONCILE_PAGE_SIZE, reconcileRecords} from "../adapters/reconcile.js"
+import {applyRedaction, getRedactionRules} from "../adapters/redaction.js"
+import {
+  MAX_REPLAY_DELIVERY_IDS,
+  MAX_REPLAY_RECORD_IDS,
+  replayDeliveries,
+} from "../adapters/replay.js"
+import {getAdapterSchema, getSchemaHash} from "../adapters/schema.js"
+import {buildAttioPayload} from "../adapters/send-event.js"
+import {shouldSyncRecord} from "../adapters/should-sync.js"
 import type {AttioPluginOptions} from "../index.js"
+import {claimEvent, getEventId, pruneProcessedEvents, releaseEvent} from "../utils/idempotency.js"
 import {validateSecret} from "../utils/secret.js"
 
 export const endpoints = (opts: AttioPluginOptions) => ({
@@ -16,24 +30,30 @@ export const endpoints = (opts: AttioPluginOptions) => ({
     "/attio/link",
     {
       method: "POST",
+      cloneRequest: true,
       body: z.object({
-        secret: z.string(),
+        secret: z.string().optional(),
         webhookUrl: z.string(),
       }),
     },
     async (ctx) => {
-      const error = validateSecret(opts, ctx)
+      const error = await validateSecret(opts, ctx)
       if (error) return error
 
+      // per-integration secret, used to sign every outbound delivery
+      const signingSecret = generateId(32)
+
       const webhook = await ctx.context.adapter.create({
         model: "attioIntegration",
         data: {
           webhookUrl: ctx.body.webhookUrl,
+          secret: signingSecret,
         },
       })
 
       return ctx.json({
         webhookId: webhook.id,
+        signingSecret,
       })
     }
   ),
@@ -45,13 +65,14 @@ export const endpoints = (opts: AttioPluginOptions) => ({
     "/attio/unlink",
     {
       method: "POST",
+      cloneRequest: true,
       body: z.object({
-        secret: z.string(),
+        secret: z.string().optional(),
         webhookId: z.string(),
       }),
     },
     async (ctx) => {
-      const error = validateSecret(opts, ctx)
+      const error = await validateSecret(opts, ctx)
       if (error) return error
 
       // find and delete the webhook registration
@@ -69,6 +90,19 @@ export const endpoints = (opts: AttioPluginOptions) => ({
         return ctx.error("NOT_FOUND")
       }
 
+      // drop deliveries that can no longer be sent and their log
+      for (const model of ["attioOutbox", "attioDelivery"]) {
+        await ctx.context.adapter.deleteMany({
+          model,
+          where: [
+            {
+              field: "integrationId",
+              value: ctx.body.webhookId,
+            },
+          ],
+        })
+      }
+
       await ctx.context.adapter.delete({
         model: "attioIntegration",
         where: [
@@ -85,6 +119,297 @@ export const endpoints = (opts: AttioPluginOptions) => ({
     }
   ),
 
+  /**
+   * Retry pending deliveries that are due
+   * Call this periodically (e.g. from a cron job) to recover from Attio outages
+   */
+  drainOutbox: createAuthEndpoint(
+    "/attio/drain-outbox",
+    {
+      method: "POST",
+      cloneRequest: true,
+      body: z.object({
+        secret: z.string().optional(),
+      }),
+    },
+    async (ctx) => {
+      const error = await validateSecret(opts, ctx)
+      if (error) return error
+
+      // expired invitations are sent first, Better Auth doesn't update them on expiry
+      const promise = syncExpiredInvitations(ctx.context, opts).then(() =>
+        drainOutbox(ctx.context, opts)
+      )
+
+      // let the response go out while the queue drains in the background
+      if (opts.waitUntil) {
+        opts.waitUntil(promise)
+        return ctx.json({success: true, scheduled: true})
+      }
+
+      return ctx.json({success: true, ...(await promise)})
+    }
+  ),
+
+  /**
+   * Send existing records to Attio
+   * Sends up to `limit` records per call, call again with the returned cursor until `done`
+   */
+  backfill: createAuthEndpoint(
+    "/attio/backfill",
+    {
+      method: "POST",
+      cloneRequest: true,
+      body: z.object({
+        secret: z.string().optional(),
+        models: z.array(z.string()).optional(),
+        cursor: z
+          .object({
+            model: z.string(),
+            after: z.string().nullable(),
+          })
+          .nullable()
+          .optional(),
+        limit: z.number().int().min(1).max(1000).optional(),
+        fromSchemaVersion: z.number().int().optional(),
+      }),
+    },
+    async (ctx) => {
+      const error = await validateSecret(opts, ctx)
+      if (error) return error
+
+      const {models, cursor, limit, fromSchemaVersion} = ctx.body
+      const modelExists = opts.adapters?.some((a) => a.betterAuthModel === cursor?.model)
+      if (cursor && (!modelExists || (models && !models.includes(cursor.model)))) {
+        return ctx.error("BAD_REQUEST", {
+          message: `No adapter found for model "${cursor.model}"`,
+        })
+      }
+
+      const result = await runBackfill(ctx.context, opts, {
+        models,
+        cursor,
+        limit,
+        fromSchemaVersion,
+      })
+
+      return ctx.json({success: true, ...result})
+    }
+  ),
+
+  /**
+   * Compare a page of Attio records against local records to detect sync drift
+   * Pages are sent in Better Auth ID order, with `repair` mismatched links are fixed
+   */
+  reconcile: createAuthEndpoint(
+    "/attio/reconcile",
+    {
+      method: "POST",
+      cloneRequest: true,
+      body: z.object({
+        secret: z.string().optional(),
+        model: z.string(),
+        records: z
+          .array(
+            z.object({
+              record_id: z.string(),
+              id: z.string().nullable(),
+            })
+          )
+          .max(MAX_RECONCILE_PAGE_SIZE),
+        after: z.string().nullable().optional(),
+        last: z.boolean().optional(),
+        repair: z.boolean().optional(),
+      }),
+    },
+    async (ctx) => {
+      const error = await validateSecret(opts, ctx)
+      if (error) return error
+
+      const adapter = getAdapterByModel(opts.adapters ?? [], ctx.body.model)
+      if (!adapter) {
+        return ctx.error("NOT_FOUND", {
+          message: `No adapter found for model "${ctx.body.model}"`,
+        })
+      }
+
+      const {records, after, last, repair} = ctx.body
+      const result = await reconcileRecords(ctx.context, adapter, {records, after, last, repair})
+
+      return ctx.json({success: true, ...result})
+    }
+  ),
+
+  /**
+   * List all registered adapters with their Attio schema
+   * Outbound events only reference the schema hash, refetch when it changes
+   */
+  getSchema: createAuthEndpoint(
+    "/attio/schema",
+    {
+      method: "POST",
+      cloneRequest: true,
+      body: z.object({
+        secret: z.string().optional(),
+      }),
+    },
+    async (ctx) => {
+      const error = await validateSecret(opts, ctx)
+      if (error) return error
+
+      const adapters = await Promise.all((opts.adapters ?? []).map(getAdapterSchema))
+
+      return ctx.json({adapters})
+    }
+  ),
+
+  /**
+   * Get the current Attio payload of a single record, e.g. to refresh a stale record in Attio
+   */
+  getRecord: createAuthEndpoint(
+    "/attio/record",
+    {
+      method: "POST",
+      cloneRequest: true,
+      body: z.object({
+        secret: z.string().optional(),
+        model: z.string(),
+        id: z.string().optional(),
+        attioId: z.string().optional(),
+        webhookId: z.string().optional(), // apply the redaction rules of this integration
+      }),
+    },
+    async (ctx) => {
+      const error = await validateSecret(opts, ctx)
+      if (error) return error
+
+      const {model, id, attioId} = ctx.body
+      if (!id && !attioId) {
+        return ctx.error("BAD_REQUEST", {
+          message: "Either id or attioId is required",
+        })
+      }
+
+      const adapter = getAdapterByModel(opts.adapters ?? [], model)
+      if (!adapter) {
+        return ctx.error("NOT_FOUND", {
+          message: `No adapter found for model "${model}"`,
+        })
+      }
+
+      const record = await ctx.context.adapter.findOne<Record<string, unknown>>({
+        model: adapter.betterAuthModel,
+        where: [id ? {field: "id", value: id} : {field: "attioId", value: attioId as string}],
+      })
+
+      // records excluded from syncing are treated as if they didn't exist
+      if (
+        !record ||
+        !(await shouldSyncRecord("update", record, "outbound", adapter, ctx.context, opts))
+      ) {
+        return ctx.error("NOT_FOUND")
+      }
+
+      const payload = await buildAttioPayload("update", record, adapter, ctx.context)
+
+      const integration = ctx.body.webhookId
+        ? await ctx.context.adapter.findOne<AttioIntegration>({
+            model: "attioIntegration",
+            where: [{field: "id", value: ctx.body.webhookId}],
+          })
+        : null
+      const rules = getRedactionRules(opts.redaction, adapter, integration ?? undefined)
+      const data = payload && (await applyRedaction(payload, adapter, rules))
+
+      return ctx.json({
+        data,
+        adapter: {
+          betterAuthModel: adapter.betterAuthModel,
+          attioObject: adapter.attioObject,
+          schemaHash: await getSchemaHash(adapter),
+        },
+      })
+    }
+  ),
+
+  /**
+   * List logged delivery attempts, newest first
+   * E.g. to find out why a record didn't reach Attio
+   */
+  listDeliveries: createAuthEndpoint(
+    "/attio/deliveries",
+    {
+      method: "POST",
+      cloneRequest: true,
+      body: z.object({
+        secret: z.string().optional(),
+        integrationId: z.string().optional(),
+        model: z.string().optional(),
+        recordId: z.string().optional(),
+        event: z.enum(["create", "update", "delete"]).optional(),
+        status: z.enum(["delivered", "retrying", "failed"]).optional(),
+        since: z.iso.datetime().optional(),
+        until: z.iso.datetime().optional(),
+        limit: z.number().int().min(1).max(200).optional(),
+        offset: z.number().int().min(0).optional(),
+      }),
+    },
+    async (ctx) => {
+      const error = await validateSecret(opts, ctx)
+      if (error) return error
+
+      const {secret: _, since, until, ...filter} = ctx.body
+      const result = await listDeliveries(ctx.context, {
+        ...filter,
+        since: since ? new Date(since) : undefined,
+        until: until ? new Date(until) : undefined,
+      })
+
+      return ctx.json(result)
+    }
+  ),
+
+  /**
+   * Send records to Attio again, by record, adapter model, time window or logged delivery
+   * Unlike touching the records in the database, this doesn't trigger unrelated hooks
+   */
+  replay: createAuthEndpoint(
+    "/attio/replay",
+    {
+      method: "POST",
+      cloneRequest: true,
+      body: z.object({
+        secret: z.string().optional(),
+        model: z.string().optional(),
+        recordIds: z.array(z.string()).max(MAX_REPLAY_RECORD_IDS).optional(),
+        deliveryIds: z.array(z.string()).max(MAX_REPLAY_DELIVERY_IDS).optional(),
+        since: z.iso.datetime().optional(),
+        until: z.iso.datetime().optional(),
+        status: z.enum(["delivered", "retrying", "failed"]).optional(),
+        limit: z.number().int().min(1).max(1000).optional(),
+      }),
+    },
+    async (ctx) => {
+      const error = await validateSecret(opts, ctx)
+      if (error) return error
+
+      const {secret: _, since, until, ...options} = ctx.body
+      if (options.recordIds && !options.model) {
+        return ctx.error("BAD_REQUEST", {
+          message: "model is required when replaying records by ID",
+        })
+      }
+
+      const result = await replayDeliveries(ctx.context, opts, {
+        ...options,
+        since: since ? new Date(since) : undefined,
+        until: until ? new Date(until) : undefined,
+      })
+
+      return ctx.json({success: true, ...result})
+    }
+  ),
+
   /**
    * Receive webhook events from Attio
    * E.g. record updates
@@ -93,144 +418,49 @@ export const endpoints = (opts: AttioPluginOptions) => ({
     "/attio/webhook",
     {
       method: "POST",
+      cloneRequest: true,
       body: z.object({
         webhook_id: z.string(),
         events: z.array(z.any()),
-        secret: z.string(),
+        secret: z.string().optional(),
       }),
     },
     async (ctx) => {
-      const error = validateSecret(opts, ctx)
+      const error = await validateSecret(opts, ctx)
       if (error) return error
 
+      const duplicates: string[] = []
+      const skipped: string[] = []
+
       for (const event of ctx.body.events) {
+        let claimId: string | null = null
         try {
-          const eventType = event.event_type
-          const record = event.record
-          const object = event.object
-
-          if (!record || !object) continue
-
-          // find the adapter for this Attio object
-          let adapter: ModelAdapter | undefined
-          for (const modelAdapter of opts.adapters ?? []) {
-            if (modelAdapter.attioObject === object.api_slug) {
-              adapter = modelAdapter
-              break
-            }
-          }
-
-          if (!adapter) continue
-
-          const attioId = record.id.record_id
-
-          // extract values from Attio format
-          const extractedValues: Record<string, unknown> = {
-            record_id: attioId,
-          }
-          for (const [key, value] of Object.entries(record.values)) {
-            extractedValues[key] = extractAttioValue(value)
-          }
-
-          // determine sync event type
-          let syncEvent: SyncEvent
-          if (eventType === "record.created") {
-            syncEvent = "create"
-          } else if (eventType === "record.updated") {
-            syncEvent = "update"
-          } else if (eventType === "record.deleted") {
-            syncEvent = "delete"
-          } else {
+          // skip events that were already handled, e.g. when Attio redelivers them
+          const eventId = await getEventId(event)
+          claimId = await claimEvent(ctx.context, opts, eventId)
+          if (!claimId) {
+            duplicates.push(eventId)
             continue
           }
 
-          // use adapter to transform data
-          const result = await adapter.fromAttio(syncEvent, extractedValues, ctx.context)
-
-          // if adapter returned null, it handled everything itself
-          if (result === null) {
-            continue
-          }
-
-          // handle default flow based on sync event
-          if (syncEvent === "delete") {
-            if (adapter.syncDeletions !== false) {
-              const existing = (await ctx.context.adapter.findOne({
-                model: adapter.betterAuthModel,
-                where: [{field: "attioId", value: attioId}],
-              })) as Record<string, unknown> | null
-
-              if (existing) {
-                await ctx.context.adapter.delete({
-                  model: adapter.betterAuthModel,
-                  where: [{field: "id", value: existing.id as string}],
-                })
-              }
-            }
-          } else if (syncEvent === "create" || syncEvent === "update") {
-            // check for existing record by attioId first
-            let existing = (await ctx.context.adapter.findOne({
-              model: adapter.betterAuthModel,
-              where: [{field: "attioId", value: attioId}],
-            })) as Record<string, unknown> | null
-
-            // if not found by attioId, check by the Better Auth ID from Attio
-            // this handles the case where a local record exists but doesn't have attioId yet
-            if (!existing && adapter.idField && extractedValues[adapter.idField]) {
-              const betterAuthId = extractedValues[adapter.idField]
-              if (typeof betterAuthId === "string") {
-                existing = (await ctx.context.adapter.findOne({
-                  model: adapter.betterAuthModel,
-                  where: [{field: "id", value: betterAuthId}],
-                })) as Record<string, unknown> | null
-              }
-            }
-
-            // handle onMissing behavior
-            const onMissing = adapter.onMissing || "create"
-
-            if (existing) {
-              // update existing record
-              const updateData = {...result}
-              delete updateData.id // can't update ID
-              delete updateData.createdAt // can't update createdAt
-
-              if (Object.keys(updateData).length > 0) {
-                const updated = (await ctx.context.adapter.update({
-                  model: adapter.betterAuthModel,
-                  where: [{field: "id", value: existing.id as string}],
-                  update: updateData,
-                })) as Record<string, unknown>
-
-                // trigger webhook for update
-                if (updated) {
-                  await sendWebhookEvent("update", updated, adapter, ctx.context, opts)
-                }
-              }
-            } else if (syncEvent === "create" || onMissing === "create") {
-              // create new record
-              const created = await ctx.context.adapter.create({
-                model: adapter.betterAuthModel,
-                data: result,
-                forceAllowId: true,
-              })
-
-              // trigger webhook for creation
-              if (created) {
-                await sendWebhookEvent("create", created, adapter, ctx.context, opts)
-              }
-            } else if (onMissing === "delete") {
-              // send delete event back to Attio to remove orphaned record
-              await sendWebhookEvent("delete", {attioId}, adapter, ctx.context, opts)
-            }
-            // if onMissing is 'ignore', do nothing
+          if (!(await receiveWebhookEvent(event, ctx.context, opts))) {
+            skipped.push(eventId)
           }
         } catch (error) {
           console.error(`Error processing event:`, error)
+
+          // let a redelivery process the event again
+          if (claimId) {
+            await releaseEvent(ctx.context, claimId).catch((error) =>
+              console.error("Error releasing event:", error)
+            )
+          }
         }
       }
 
-      return ctx.json({success: true})
+      await pruneProcessedEvents(ctx.context)
+
+      return ctx.json({success: true, duplicates, skipped})
     }
   ),
 
@@ -241,13 +471,14 @@ export const endpoints = (opts: AttioPluginOptions) => ({
     "/attio/send-password-reset",
     {
       method: "POST",
+      cloneRequest: true,
       body: z.object({
-        secret: z.string(),
+        secret: z.string().optional(),
         userId: z.string(),
       }),
     },
     async (ctx) => {
-      const error = validateSecret(opts, ctx)
+      const error = await validateSecret(opts, ctx)
       if (error) return error
 
       if (!ctx.context.options.emailAndPassword?.sendResetPassword) {
@@ -313,13 +544,14 @@ export const endpoints = (opts: AttioPluginOptions) => ({
     "/attio/sessions",
     {
       method: "POST",
+      cloneRequest: true,
       body: z.object({
-        secret: z.string(),
+        secret: z.string().optional(),
         userId: z.string(),
       }),
     },
     async (ctx) => {
-      const error = validateSecret(opts, ctx)
+      const error = await validateSecret(opts, ctx)
       if (error) return error
 
       const sessions: SessionWithImpersonatedBy[] = await ctx.context.internalAdapter.listSessions(
@@ -366,13 +598,14 @@ export const endpoints = (opts: AttioPluginOptions) => ({
     "/attio/revoke-session",
     {
       method: "POST",
+      cloneRequest: true,
       body: z.object({
-        secret: z.string(),
+        secret: z.string().optional(),
         sessionToken: z.string(),
       }),
     },
     async (ctx) => {
-      const error = validateSecret(opts, ctx)
+      const error = await validateSecret(opts, ctx)
       if (error) return error
 
       try {
@@ -394,13 +627,14 @@ export const endpoints = (opts: AttioPluginOptions) => ({
     "/attio/revoke-all-sessions",
     {
       method: "POST",
+      cloneRequest: true,
       body: z.object({
-        secret: z.string(),
+        secret: z.string().optional(),
         userIds: z.array(z.string()),
       }),
     },
     async (ctx) => {
-      const error = validateSecret(opts, ctx)
+      const error = await validateSecret(opts, ctx)
       if (error) return error
 
       try {
@@ -1,7 +1,11 @@
 import type {AuthContext, User} from "better-auth"
 import {createAuthEndpoint} from "better-auth/api"
-import {type Invitation, type Member, type organization} from "better-auth/plugins"
+import type {Invitation, Member, organization} from "better-auth/plugins"
 import {z} from "zod"
+import {getAdapterByModel} from "../adapters/helpers.js"
+import {syncExpiredInvitations} from "../adapters/invitation.js"
+import {sendWebhookEvent} from "../adapters/send-event.js"
+import type {SyncEvent} from "../adapters/types.js"
 import type {AttioPluginOptions} from "../index.js"
 import {validateSecret} from "../utils/secret.js"
 
@@ -13,6 +17,29 @@ export const getOrganizationPlugin = (context: AuthContext) => {
   return plugin as ReturnType<typeof organization>
 }
 
+/**
+ * Send an invitation written by these endpoints to Attio
+ * Raw adapter writes don't trigger database hooks, so the invitation adapter isn't notified
+ */
+const syncInvitation = async (
+  ctx: AuthContext,
+  opts: AttioPluginOptions,
+  event: SyncEvent,
+  invitationId: string
+) => {
+  const adapter = getAdapterByModel(opts.adapters ?? [], "invitation")
+  if (!adapter) return
+
+  const invitation = await ctx.adapter.findOne<Record<string, unknown>>({
+    model: "invitation",
+    where: [{field: "id", value: invitationId}],
+  })
+
+  if (invitation) {
+    await sendWebhookEvent(event, invitation, adapter, ctx, opts)
+  }
+}
+
 /**
  * Organization-plugin specific endpoints
  */
@@ -24,13 +51,14 @@ export const endpoints = (opts: AttioPluginOptions) => ({
     "/attio/list-org-invitations",
     {
       method: "POST",
+      cloneRequest: true,
       body: z.object({
-        secret: z.string(),
+        secret: z.string().optional(),
         organizationId: z.string(),
       }),
     },
     async (ctx) => {
-      const error = validateSecret(opts, ctx)
+      const error = await validateSecret(opts, ctx)
       if (error) return error
 
       if (!getOrganizationPlugin(ctx.context)) {
@@ -109,13 +137,14 @@ export const endpoints = (opts: AttioPluginOptions) => ({
     "/attio/cancel-org-invitation",
     {
       method: "POST",
+      cloneRequest: true,
       body: z.object({
-        secret: z.string(),
+        secret: z.string().optional(),
         invitationId: z.string(),
       }),
     },
     async (ctx) => {
-      const error = validateSecret(opts, ctx)
+      const error = await validateSecret(opts, ctx)
       if (error) return error
 
       if (!getOrganizationPlugin(ctx.context)) {
@@ -136,6 +165,8 @@ export const endpoints = (opts: AttioPluginOptions) => ({
           },
         })
 
+        await syncInvitation(ctx.context, opts, "update", ctx.body.invitationId)
+
         return ctx.json({
           success: true,
         })
@@ -145,6 +176,42 @@ export const endpoints = (opts: AttioPluginOptions) => ({
     }
   ),
 
+  /**
+   * Send invitations that expired to Attio
+   * Better Auth doesn't update invitations when they expire, call this periodically (e.g. from a cron job)
+   */
+  syncExpiredInvitations: createAuthEndpoint(
+    "/attio/sync-expired-invitations",
+    {
+      method: "POST",
+      cloneRequest: true,
+      body: z.object({
+        secret: z.string().optional(),
+        since: z.iso.datetime().optional(), // defaults to 7 days ago
+        limit: z.number().int().min(1).max(500).optional(),
+      }),
+    },
+    async (ctx) => {
+      const error = await validateSecret(opts, ctx)
+      if (error) return error
+
+      const adapter = getAdapterByModel(opts.adapters ?? [], "invitation")
+      if (!getOrganizationPlugin(ctx.context) || !adapter) {
+        return ctx.error("NOT_IMPLEMENTED")
+      }
+
+      const count = await syncExpiredInvitations(ctx.context, opts, {
+        since: ctx.body.since ? new Date(ctx.body.since) : undefined,
+        limit: ctx.body.limit,
+      })
+
+      return ctx.json({
+        success: true,
+        count,
+      })
+    }
+  ),
+
   /**
    * Create organization invitation
    */
@@ -152,8 +219,9 @@ export const endpoints = (opts: AttioPluginOptions) => ({
     "/attio/create-org-invitation",
     {
       method: "POST",
+      cloneRequest: true,
       body: z.object({
-        secret: z.string(),
+        secret: z.string().optional(),
         email: z.email(),
         role: z.union([z.string(), z.array(z.string())]),
         organizationId: z.string(),
@@ -161,7 +229,7 @@ export const endpoints = (opts: AttioPluginOptions) => ({
       }),
     },
     async (ctx) => {
-      const error = validateSecret(opts, ctx)
+      const error = await validateSecret(opts, ctx)
       if (error) return error
 
       const plugin = getOrganizationPlugin(ctx.context)
@@ -246,6 +314,8 @@ export const endpoints = (opts: AttioPluginOptions) => ({
             },
           })
 
+          await syncInvitation(ctx.context, opts, "update", existingInvitation.id)
+
           return ctx.json({
             ...existingInvitation,
             expiresAt: expiresAt.toISOString(),
@@ -270,6 +340,8 @@ export const endpoints = (opts: AttioPluginOptions) => ({
           },
         })
 
+        await syncInvitation(ctx.context, opts, "create", invitation.id)
+
         if (plugin.options?.sendInvitationEmail) {
           const organization = await ctx.context.adapter.findOne({
             model: "organization",
@@ -313,13 +385,14 @@ export const endpoints = (opts: AttioPluginOptions) => ({
     "/attio/search-users",
     {
       method: "POST",
+      cloneRequest: true,
       body: z.object({
-        secret: z.string(),
+        secret: z.string().optional(),
         search: z.string(),
       }),
     },
     async (ctx) => {
-      const error = validateSecret(opts, ctx)
+      const error = await validateSecret(opts, ctx)
       if (error) return error
 
       try {
@@ -365,12 +438,13 @@ export const endpoints = (opts: AttioPluginOptions) => ({
     "/attio/get-org-roles",
     {
       method: "POST",
+      cloneRequest: true,
       body: z.object({
-        secret: z.string(),
+        secret: z.string().optional(),
       }),
     },
     async (ctx) => {
-      const error = validateSecret(opts, ctx)
+      const error = await validateSecret(opts, ctx)
       if (error) return error
 
       const plugin = getOrganizationPlugin(ctx.context)
@@ -0,0 +1,145 @@
+import type {AuthContext} from "better-auth"
+import {createAuthMiddleware} from "better-auth/api"
+import {getAdapterByModel} from "../adapters/helpers.js"
+import {sendWebhookEvent} from "../adapters/send-event.js"
+import type {SyncEvent} from "../adapters/types.js"
+import type {AttioPluginOptions} from "../index.js"
+
+type Change = {
+  model: string
+  event: SyncEvent
+  record: unknown
+}
+
+type Returned = Record<string, unknown> | null
+
+/**
+ * Records written by organization plugin endpoints, taken from their response and body
+ * The plugin writes through the raw adapter, so database hooks never see these changes
+ */
+const changes: Record<string, (returned: Returned, body: Record<string, unknown>) => Change[]> = {
+  "/organization/invite-member": (returned) => [
+    {model: "invitation", event: "update", record: returned},
+  ],
+  "/organization/accept-invitation": (returned) => [
+    {model: "invitation", event: "update", record: returned?.invitation},
+    {model: "member", event: "create", record: returned?.member},
+  ],
+  "/organization/reject-invitation": (returned) => [
+    {model: "invitation", event: "update", record: returned?.invitation},
+  ],
+  "/organization/cancel-invitation": (returned) => [
+    {model: "invitation", event: "update", record: returned},
+  ],
+  "/organization/create": (returned) =>
+    ((returned?.members as unknown[] | undefined) ?? []).map((member) => ({
+      model: "member",
+      event: "create",
+      record: member,
+    })),
+  "/organization/add-member": (returned) => [{model: "member", event: "create", record: returned}],
+  "/organization/update-member-role": (returned) => [
+    {model: "member", event: "update", record: returned},
+  ],
+  "/organization/remove-member": (returned) => [
+    {model: "member", event: "delete", record: returned?.member},
+  ],
+  "/organization/leave": (returned) => [{model: "member", event: "delete", record: returned}],
+  "/organization/create-team": (returned) => [{model: "team", event: "create", record: returned}],
+  "/organization/update-team": (returned) => [{model: "team", event: "update", record: returned}],
+  "/organization/remove-team": (_, body) => [
+    {model: "team", event: "delete", record: {id: body.teamId}},
+  ],
+  "/organization/add-team-member": (returned) => [
+    {model: "teamMember", event: "create", record: returned},
+  ],
+  "/organization/remove-team-member": (_, body) => [
+    {model: "teamMember", event: "delete", record: {teamId: body.teamId, userId: body.userId}},
+  ],
+}
+
+/**
+ * Get the response of the endpoint, null if it failed
+ */
+const getReturned = async (context: AuthContext & {returned?: unknown}): Promise<Returned> => {
+  const returned = context.returned
+  if (returned instanceof Response) {
+    return returned.ok ? returned.clone().json() : null
+  }
+  if (returned instanceof Error || !returned || typeof returned !== "object") {
+    return null
+  }
+  return returned as Returned
+}
+
+/**
+ * Send a record written by the organization plugin to its adapter and the adapters it's related to
+ */
+const syncChange = async (
+  ctx: AuthContext,
+  opts: AttioPluginOptions,
+  {model, event, record}: Change
+) => {
+  if (!record || typeof record !== "object") return
+  const data = record as Record<string, unknown>
+  const adapters = opts.adapters ?? []
+  const sends: Promise<void>[] = []
+
+  const adapter = getAdapterByModel(adapters, model)
+  if (adapter && typeof data.id === "string") {
+    if (event === "delete") {
+      sends.push(sendWebhookEvent("delete", data, adapter, ctx, opts))
+    } else {
+      // responses can leave out fields, e.g. `attioId`
+      const current = await ctx.adapter.findOne<Record<string, unknown>>({
+        model,
+        where: [{field: "id", value: data.id}],
+      })
+      if (current) {
+        const currentEvent = current.attioId ? "update" : "create"
+        sends.push(sendWebhookEvent(currentEvent, current, adapter, ctx, opts))
+      }
+    }
+  }
+
+  // same as the related model database hooks, e.g. the workspace of a new member
+  if (event !== "update") {
+    for (const parent of adapters) {
+      const relationId = parent.relatedModels?.[model]?.(data)
+      if (!relationId) continue
+
+      const parentRecord = await ctx.adapter.findOne<Record<string, unknown>>({
+        model: parent.betterAuthModel,
+        where: [{field: "id", value: relationId}],
+      })
+      if (parentRecord) {
+        sends.push(sendWebhookEvent("update", parentRecord, parent, ctx, opts))
+      }
+    }
+  }
+
+  await Promise.all(sends)
+}
+
+/**
+ * Hooks for organization plugin endpoints
+ */
+export const hooks = (opts: AttioPluginOptions) => ({
+  after: [
+    {
+      matcher: (context: {path?: string}) => !!context.path && context.path in changes,
+      handler: createAuthMiddleware(async (ctx) => {
+        const getChanges = changes[ctx.path]
+        if (!getChanges) return
+
+        const returned = await getReturned(ctx.context)
+        if (!returned) return
+
+        const body = (ctx.body ?? {}) as Record<string, unknown>
+        await Promise.all(
+          getChanges(returned, body).map((change) => syncChange(ctx.context, opts, change))
+        )
+      }),
+    },
+  ],
+})
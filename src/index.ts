@@ -1,10 +1,19 @@
 import type {BetterAuthPlugin} from "better-auth"
-import {getAdapters} from "./adapters/helpers.js"
+import type {DeliveryLogOptions} from "./adapters/delivery-log.js"
+import {getAdapterByModel, getAdapters} from "./adapters/helpers.js"
+import {
+  type ActivityMetricsOptions,
+  syncSessionActivity,
+  withActivityMetrics,
+} from "./adapters/metrics.js"
+import type {OutboxOptions} from "./adapters/outbox.js"
+import {type RedactionRule, validateRedactionRules} from "./adapters/redaction.js"
 import {sendWebhookEvent} from "./adapters/send-event.js"
-import type {ModelAdapter} from "./adapters/types.js"
+import type {AnyModelAdapter, SyncDirection, SyncEvent} from "./adapters/types.js"
 import {endpoints as adminEndpoints} from "./endpoints/admin.js"
 import {endpoints} from "./endpoints/core.js"
 import {endpoints as organizationEndpoints} from "./endpoints/organization.js"
+import {hooks as organizationHooks} from "./hooks/organization.js"
 
 export type AttioPluginOptions = {
   /**
@@ -12,12 +21,47 @@ export type AttioPluginOptions = {
    */
   secret?: string
 
+  /**
+   * Accepted clock skew in seconds for signed requests from Attio
+   * Defaults to 300 (5 minutes)
+   */
+  signatureTolerance?: number
+
+  /**
+   * Whether to still accept the plaintext secret in the request body
+   * Deprecated, requests should be signed instead. Defaults to true
+   */
+  allowBodySecret?: boolean
+
   /**
    * Model adapters for bidirectional sync
    * Each adapter handles transformation and sync logic for a specific model
    * Defaults are provided for user and organization models
    */
-  adapters?: ModelAdapter[]
+  adapters?: AnyModelAdapter[]
+
+  /**
+   * Return false to skip a record of any adapter, checked before the adapter's own `shouldSync`
+   * Receives the Better Auth record for outbound events and the decoded Attio values for inbound ones
+   */
+  shouldSync?: (
+    event: SyncEvent,
+    values: Record<string, unknown>,
+    direction: SyncDirection,
+    adapter: AnyModelAdapter
+  ) => boolean | Promise<boolean>
+
+  /**
+   * Redaction rules for outbound payloads, applied to every adapter after `toAttio`
+   * Rules can be limited to an adapter model and an integration, and are applied in order
+   */
+  redaction?: RedactionRule[]
+
+  /**
+   * Add computed activity attributes to the user and organization adapters, e.g. last sign in,
+   * session counts and member count. New sessions trigger a throttled user update
+   */
+  activityMetrics?: boolean | ActivityMetricsOptions
 
   /**
    * Optional handler to schedule work to run after the response is sent.
@@ -27,6 +71,24 @@ export type AttioPluginOptions = {
    */
   waitUntil?: (promise: Promise<unknown>) => void
 
+  /**
+   * Retry behavior for outbound deliveries
+   * Every delivery is persisted before it's sent and retried with exponential backoff
+   */
+  outbox?: OutboxOptions
+
+  /**
+   * Persisted log of every delivery attempt, listed by `/attio/deliveries`
+   * Set to false to disable it
+   */
+  deliveryLog?: DeliveryLogOptions | false
+
+  /**
+   * Time in seconds to remember processed Attio event IDs, redeliveries within that window are skipped
+   * Defaults to 86400 (24 hours)
+   */
+  processedEventTtl?: number
+
   /**
    * URL to redirect users to after clicking the password reset link
    * This should be your application's password reset page
@@ -36,7 +98,15 @@ export type AttioPluginOptions = {
 }
 
 export const attio = (opts: AttioPluginOptions) => {
-  const adapters = getAdapters(opts.adapters)
+  const adapters = opts.activityMetrics
+    ? withActivityMetrics(
+        getAdapters(opts.adapters),
+        typeof opts.activityMetrics === "object" ? opts.activityMetrics : {}
+      )
+    : getAdapters(opts.adapters)
+
+  // fail on startup instead of sending invalid values
+  validateRedactionRules(opts.redaction, adapters)
 
   return {
     id: "attio",
@@ -87,12 +157,38 @@ export const attio = (opts: AttioPluginOptions) => {
                   }
                 }
 
-                hooks[model].create = {after: triggerParentSync}
-                hooks[model].delete = {after: triggerParentSync}
+                // keep hooks of an adapter for the related model itself, e.g. `memberAdapter`
+                const chain = (hook?: {
+                  after?: (data: Record<string, unknown>) => Promise<void>
+                }) => ({
+                  after: async (data: Record<string, unknown>) => {
+                    await hook?.after?.(data)
+                    await triggerParentSync(data)
+                  },
+                })
+
+                hooks[model].create = chain(hooks[model].create)
+                hooks[model].delete = chain(hooks[model].delete)
               }
             }
           }
 
+          // keep the last sign in of users fresh
+          const userAdapter = getAdapterByModel(adapters, "user")
+          if (opts.activityMetrics && userAdapter) {
+            const sessionHooks = hooks.session ?? {}
+            const previous = sessionHooks.create?.after
+            hooks.session = {
+              ...sessionHooks,
+              create: {
+                after: async (data: Record<string, unknown>) => {
+                  await previous?.(data)
+                  await syncSessionActivity(data, userAdapter, ctx, opts)
+                },
+              },
+            }
+          }
+
           return hooks
         })(),
       },
@@ -107,6 +203,158 @@ export const attio = (opts: AttioPluginOptions) => {
             required: true,
             unique: true,
           },
+          // used to sign outbound deliveries
+          secret: {
+            type: "string",
+            required: false,
+            returned: false,
+          },
+        },
+      },
+      // pending deliveries to Attio, retried until they succeed
+      // or reach the maximum number of attempts
+      attioOutbox: {
+        fields: {
+          integrationId: {
+            type: "string",
+            required: true,
+            references: {
+              model: "attioIntegration",
+              field: "id",
+              onDelete: "cascade",
+            },
+          },
+          model: {
+            type: "string",
+            required: true,
+          },
+          event: {
+            type: "string",
+            required: true,
+          },
+          recordId: {
+            type: "string",
+            required: false,
+          },
+          payload: {
+            type: "string",
+            required: true,
+          },
+          attempts: {
+            type: "number",
+            required: true,
+            defaultValue: 0,
+          },
+          status: {
+            type: "string",
+            required: true,
+            defaultValue: "pending",
+          },
+          nextAttemptAt: {
+            type: "date",
+            required: true,
+          },
+          lastError: {
+            type: "string",
+            required: false,
+          },
+          createdAt: {
+            type: "date",
+            required: true,
+          },
+        },
+      },
+      // every delivery attempt, kept for the configured retention period
+      attioDelivery: {
+        fields: {
+          integrationId: {
+            type: "string",
+            required: true,
+            references: {
+              model: "attioIntegration",
+              field: "id",
+              onDelete: "cascade",
+            },
+          },
+          outboxId: {
+            type: "string",
+            required: true,
+          },
+          model: {
+            type: "string",
+            required: true,
+          },
+          event: {
+            type: "string",
+            required: true,
+          },
+          recordId: {
+            type: "string",
+            required: false,
+          },
+          status: {
+            type: "string",
+            required: true,
+          },
+          httpStatus: {
+            type: "number",
+            required: false,
+          },
+          latency: {
+            type: "number",
+            required: true,
+          },
+          attempt: {
+            type: "number",
+            required: true,
+          },
+          error: {
+            type: "string",
+            required: false,
+          },
+          createdAt: {
+            type: "date",
+            required: true,
+          },
+        },
+      },
+      // IDs of events received from Attio, used to skip redeliveries
+      attioProcessedEvent: {
+        fields: {
+          eventId: {
+            type: "string",
+            required: true,
+            unique: true,
+          },
+          expiresAt: {
+            type: "date",
+            required: true,
+          },
+          createdAt: {
+            type: "date",
+            required: true,
+          },
+        },
+      },
+      // digest of the last payload sent per record, used to skip no-op changes
+      attioSyncState: {
+        fields: {
+          model: {
+            type: "string",
+            required: true,
+          },
+          recordId: {
+            type: "string",
+            required: true,
+          },
+          hash: {
+            type: "string",
+            required: true,
+          },
+          updatedAt: {
+            type: "date",
+            required: true,
+          },
         },
       },
       user: {
@@ -127,15 +375,63 @@ export const attio = (opts: AttioPluginOptions) => {
           },
         },
       },
+      // only added when the optional adapters are registered
+      ...Object.fromEntries(
+        ["member", "invitation", "team"]
+          .filter((model) => adapters.some((a) => a.betterAuthModel === model))
+          .map((model) => [
+            model,
+            {
+              fields: {
+                attioId: {
+                  type: "string",
+                  required: false,
+                  unique: true,
+                },
+              } as const,
+            },
+          ])
+      ),
     },
+    // the organization plugin writes without database hooks
+    hooks: organizationHooks({...opts, adapters}),
     endpoints: {
       ...endpoints({...opts, adapters}),
       ...adminEndpoints(opts),
-      ...organizationEndpoints(opts),
+      ...organizationEndpoints({...opts, adapters}),
     },
   } satisfies BetterAuthPlugin
 }
 
+export type {BackfillCursor, BackfillOptions, BackfillResult} from "./adapters/backfill.js"
+export * from "./adapters/codec.js"
+export * from "./adapters/define.js"
+export type {
+  DeliveryLogEntry,
+  DeliveryLogFilter,
+  DeliveryLogOptions,
+} from "./adapters/delivery-log.js"
+export * from "./adapters/invitation.js"
+export * from "./adapters/member.js"
+export {
+  type ActivityMetricsOptions,
+  organizationActivityFields,
+  userActivityFields,
+} from "./adapters/metrics.js"
 export * from "./adapters/organization.js"
+export type {SyncOrigin} from "./adapters/origin.js"
+export type {AttioIntegration, DrainResult, OutboxEntry, OutboxOptions} from "./adapters/outbox.js"
+export type {ReconcileOptions, ReconcileRecord, ReconcileResult} from "./adapters/reconcile.js"
+export type {RedactionRule} from "./adapters/redaction.js"
+export type {ReplayOptions, ReplayResult} from "./adapters/replay.js"
+export type {AdapterSchema} from "./adapters/schema.js"
+export * from "./adapters/team.js"
 export * from "./adapters/types.js"
 export * from "./adapters/user.js"
+export {
+  NONCE_HEADER,
+  SIGNATURE_HEADER,
+  signPayload,
+  TIMESTAMP_HEADER,
+  verifySignature,
+} from "./utils/signature.js"
@@ -0,0 +1,120 @@
+import type {AuthContext} from "better-auth"
+import type {AttioRecordEvent} from "../adapters/types.js"
+import type {AttioPluginOptions} from "../index.js"
+import {sha256} from "./signature.js"
+
+/**
+ * Default time in seconds a processed event ID is remembered
+ */
+export const DEFAULT_PROCESSED_EVENT_TTL = 60 * 60 * 24
+
+// pruning runs at most once per interval and database, instead of on every webhook call
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000
+const lastPrunedAt = new WeakMap<object, number>()
+
+/**
+ * Stable identifier for an event received from Attio
+ * Falls back to a digest of the whole event, so identical redeliveries map to the same ID
+ */
+export const getEventId = async (event: AttioRecordEvent) => {
+  if (event.id?.event_id) {
+    return event.id.event_id
+  }
+
+  return sha256(JSON.stringify(event))
+}
+
+type ProcessedEvent = {
+  id: string
+  eventId: string
+  expiresAt: Date
+  createdAt: Date
+}
+
+/**
+ * Claim an event before processing it
+ * Returns the ID of the claim, or null if an earlier or concurrent delivery already claimed it
+ */
+export const claimEvent = async (ctx: AuthContext, opts: AttioPluginOptions, eventId: string) => {
+  const ttl = opts.processedEventTtl ?? DEFAULT_PROCESSED_EVENT_TTL
+  const now = new Date()
+
+  // an expired entry for the same event might still be around
+  await ctx.adapter.deleteMany({
+    model: "attioProcessedEvent",
+    where: [
+      {field: "eventId", value: eventId},
+      {field: "expiresAt", operator: "lte", value: now},
+    ],
+  })
+
+  const processed = await ctx.adapter.findOne<ProcessedEvent>({
+    model: "attioProcessedEvent",
+    where: [{field: "eventId", value: eventId}],
+  })
+  if (processed) return null
+
+  let claim: ProcessedEvent
+  try {
+    claim = await ctx.adapter.create<Omit<ProcessedEvent, "id">, ProcessedEvent>({
+      model: "attioProcessedEvent",
+      data: {
+        eventId,
+        expiresAt: new Date(now.getTime() + ttl * 1000),
+        createdAt: now,
+      },
+    })
+  } catch (error) {
+    // the insert failed on the unique event ID, a concurrent delivery claimed the event
+    const claimed = await ctx.adapter.findOne<ProcessedEvent>({
+      model: "attioProcessedEvent",
+      where: [{field: "eventId", value: eventId}],
+    })
+    if (claimed) return null
+    throw error
+  }
+
+  // databases that don't enforce the unique event ID accept concurrent claims, the first one wins
+  const claims = await ctx.adapter.findMany<ProcessedEvent>({
+    model: "attioProcessedEvent",
+    where: [{field: "eventId", value: eventId}],
+  })
+  const [first] = claims.sort(
+    (a, b) =>
+      new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime() || a.id.localeCompare(b.id)
+  )
+  if (first && first.id !== claim.id) {
+    await releaseEvent(ctx, claim.id)
+    return null
+  }
+
+  return claim.id
+}
+
+/**
+ * Release a claim of an event that failed to process, so a redelivery can retry it
+ * Only the given claim is removed, never one of a concurrent delivery
+ */
+export const releaseEvent = async (ctx: AuthContext, claimId: string) => {
+  await ctx.adapter.delete({
+    model: "attioProcessedEvent",
+    where: [{field: "id", value: claimId}],
+  })
+}
+
+/**
+ * Remove processed event IDs that are past their TTL, at most once an hour
+ */
+export const pruneProcessedEvents = async (ctx: AuthContext) => {
+  if (Date.now() - (lastPrunedAt.get(ctx.adapter) ?? 0) < PRUNE_INTERVAL_MS) return
+  lastPrunedAt.set(ctx.adapter, Date.now())
+
+  try {
+    await ctx.adapter.deleteMany({
+      model: "attioProcessedEvent",
+      where: [{field: "expiresAt", operator: "lt", value: new Date()}],
+    })
+  } catch (error) {
+    console.error("Error pruning processed events:", error)
+  }
+}
@@ -1,23 +1,62 @@
 import type {AuthContext, EndpointContext, Method} from "better-auth"
 import type {z} from "zod"
 import type {AttioPluginOptions} from "../index.js"
+import {SIGNATURE_HEADER, timingSafeEqual, verifySignature} from "./signature.js"
 
-export const validateSecret = (
+let warnedAboutBodySecret = false
+
+/**
+ * Authenticate a request from Attio
+ *
+ * Requests are expected to be signed with the shared secret (see `signPayload`), the signature
+ * is computed over the raw request body. Sending the plaintext secret in the body is deprecated,
+ * as it ends up in request logs and proxies.
+ */
+export const validateSecret = async (
   opts: AttioPluginOptions,
   ctx: EndpointContext<
     string,
     {
       method: Method
       body: z.ZodObject<{
-        secret: z.ZodString
+        secret: z.ZodOptional<z.ZodString>
       }>
     },
     AuthContext
   >
 ) => {
   const secret = opts.secret || ctx.context.secret
-  if (secret && ctx.body.secret !== secret) {
-    return ctx.error("UNAUTHORIZED")
+  if (!secret) {
+    return null
+  }
+
+  if (ctx.headers?.get(SIGNATURE_HEADER)) {
+    // endpoints are registered with `cloneRequest`, so the original body is still unread.
+    // server-side calls without a request can only be verified against the parsed body
+    const payload =
+      ctx.request && !ctx.request.bodyUsed ? await ctx.request.text() : JSON.stringify(ctx.body)
+
+    const valid = await verifySignature({
+      payload,
+      headers: ctx.headers,
+      secret,
+      tolerance: opts.signatureTolerance,
+    })
+    return valid ? null : ctx.error("UNAUTHORIZED")
   }
-  return null
+
+  if (opts.allowBodySecret !== false && ctx.body.secret) {
+    if (timingSafeEqual(ctx.body.secret, secret)) {
+      // server-side calls through `auth.api` never leave the process
+      if (ctx.request && !warnedAboutBodySecret) {
+        warnedAboutBodySecret = true
+        ctx.context.logger.warn(
+          "[attio] Authenticating with a plaintext secret in the request body is deprecated, sign requests instead"
+        )
+      }
+      return null
+    }
+  }
+
+  return ctx.error("UNAUTHORIZED")
 }
@@ -0,0 +1,114 @@
+export const SIGNATURE_HEADER = "x-attio-sync-signature"
+export const TIMESTAMP_HEADER = "x-attio-sync-timestamp"
+export const NONCE_HEADER = "x-attio-sync-nonce"
+
+/**
+ * Default window in seconds in which a signed request is accepted
+ */
+export const DEFAULT_SIGNATURE_TOLERANCE = 5 * 60
+
+const encoder = new TextEncoder()
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("")
+
+/**
+ * Hex encoded SHA-256 digest of a string
+ */
+export async function sha256(input: string): Promise<string> {
+  return toHex(await crypto.subtle.digest("SHA-256", encoder.encode(input)))
+}
+
+/**
+ * Compare two strings in constant time
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  const left = encoder.encode(a)
+  const right = encoder.encode(b)
+
+  let diff = left.length ^ right.length
+  for (let i = 0; i < left.length; i++) {
+    diff |= (left[i] ?? 0) ^ (right[i % right.length] ?? 0)
+  }
+
+  return diff === 0
+}
+
+/**
+ * Compute the hex encoded HMAC-SHA256 signature for a payload
+ * The signed content is `${timestamp}.${nonce}.${payload}`
+ */
+export async function createSignature(
+  secret: string,
+  timestamp: string,
+  nonce: string,
+  payload: string
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    {name: "HMAC", hash: "SHA-256"},
+    false,
+    ["sign"]
+  )
+
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(`${timestamp}.${nonce}.${payload}`)
+  )
+
+  return toHex(signature)
+}
+
+/**
+ * Sign a payload and return the headers to send along with it
+ */
+export async function signPayload(
+  secret: string,
+  payload: string
+): Promise<Record<string, string>> {
+  const timestamp = Math.floor(Date.now() / 1000).toString()
+  const nonce = crypto.randomUUID()
+
+  return {
+    [SIGNATURE_HEADER]: await createSignature(secret, timestamp, nonce, payload),
+    [TIMESTAMP_HEADER]: timestamp,
+    [NONCE_HEADER]: nonce,
+  }
+}
+
+/**
+ * Verify a signed payload
+ * Rejects signatures with a timestamp outside of the tolerance window (in seconds),
+ * receivers should additionally reject nonces they've already seen within that window
+ */
+export async function verifySignature({
+  payload,
+  headers,
+  secret,
+  tolerance = DEFAULT_SIGNATURE_TOLERANCE,
+}: {
+  payload: string
+  headers: Headers | Record<string, string | null | undefined>
+  secret: string
+  tolerance?: number
+}): Promise<boolean> {
+  const get = (name: string) =>
+    headers instanceof Headers ? headers.get(name) : (headers[name] ?? null)
+
+  const signature = get(SIGNATURE_HEADER)
+  const timestamp = get(TIMESTAMP_HEADER)
+  const nonce = get(NONCE_HEADER)
+  if (!signature || !timestamp || !nonce) {
+    return false
+  }
+
+  const issuedAt = Number(timestamp)
+  if (!Number.isFinite(issuedAt) || Math.abs(Date.now() / 1000 - issuedAt) > tolerance) {
+    return false
+  }
+
+  const expected = await createSignature(secret, timestamp, nonce, payload)
+  return timingSafeEqual(expected, signature)
+}